@@ -0,0 +1,266 @@
+import type { ExercisePrescription } from './exercise-parser';
+import type { WorkoutSession } from './notion';
+
+export type WeightUnit = 'lb' | 'kg';
+
+export interface WeekSessions {
+  weekNumber: number;
+  sessions: WorkoutSession[];
+}
+
+export interface ExerciseWeekStats {
+  weekNumber: number;
+  sets: number;
+  reps: number;
+  volume: number;
+  topLoad?: number;
+  estimated1RM?: number;
+  volumeChangePercent?: number;
+  personalRecord: boolean;
+}
+
+export interface PersonalRecord {
+  value: number;
+  weekNumber: number;
+}
+
+export interface ExerciseProgress {
+  key: string;
+  name: string;
+  weeks: ExerciseWeekStats[];
+  records: {
+    topLoad?: PersonalRecord;
+    estimated1RM?: PersonalRecord;
+    volume?: PersonalRecord;
+  };
+}
+
+export interface ProgressReport {
+  unit: WeightUnit;
+  weekNumbers: number[];
+  exercises: ExerciseProgress[];
+}
+
+export const REPORT_COLUMNS = [
+  'Exercise',
+  'Week',
+  'Sets',
+  'Reps',
+  'Volume',
+  'Top Load',
+  'Est. 1RM',
+  'Volume Δ',
+  'PR',
+];
+
+const KG_PER_LB = 0.45359237;
+
+export class ProgressAnalyzer {
+  private static readonly NAME_ALIASES: Record<string, string> = {
+    rdl: 'romanian deadlift',
+    sldl: 'stiff leg deadlift',
+    ohp: 'overhead press',
+    db: 'dumbbell',
+    dbs: 'dumbbell',
+    bb: 'barbell',
+    kb: 'kettlebell',
+    bss: 'bulgarian split squat',
+    pullup: 'pull up',
+    pushup: 'push up',
+    chinup: 'chin up',
+  };
+
+  static normalizeExerciseName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/\(.*?\)/g, ' ')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => this.NAME_ALIASES[word] ?? this.singularize(word))
+      .join(' ')
+      .trim();
+  }
+
+  static analyze(weeks: WeekSessions[], unit: WeightUnit = 'lb'): ProgressReport {
+    const progressByKey = new Map<string, ExerciseProgress>();
+
+    for (const week of weeks) {
+      const statsByKey = new Map<string, ExerciseWeekStats>();
+
+      for (const exercise of this.collectExercises(week.sessions)) {
+        const key = this.normalizeExerciseName(exercise.name);
+        if (!key) {
+          continue;
+        }
+
+        if (!progressByKey.has(key)) {
+          progressByKey.set(key, { key, name: this.toDisplayName(key), weeks: [], records: {} });
+        }
+
+        const stats = statsByKey.get(key) ?? {
+          weekNumber: week.weekNumber,
+          sets: 0,
+          reps: 0,
+          volume: 0,
+          personalRecord: false,
+        };
+        this.accumulate(stats, exercise, unit);
+        statsByKey.set(key, stats);
+      }
+
+      for (const [key, stats] of statsByKey) {
+        progressByKey.get(key)!.weeks.push(stats);
+      }
+    }
+
+    const exercises = Array.from(progressByKey.values());
+    exercises.forEach((progress) => this.computeTrendsAndRecords(progress));
+    exercises.sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      unit,
+      weekNumbers: weeks.map((week) => week.weekNumber),
+      exercises,
+    };
+  }
+
+  static toRows(report: ProgressReport): string[][] {
+    const rows: string[][] = [];
+
+    for (const exercise of report.exercises) {
+      for (const stats of exercise.weeks) {
+        rows.push([
+          exercise.name,
+          `${stats.weekNumber}`,
+          `${stats.sets}`,
+          `${stats.reps}`,
+          this.formatNumber(stats.volume),
+          this.formatNumber(stats.topLoad),
+          this.formatNumber(stats.estimated1RM),
+          stats.volumeChangePercent !== undefined
+            ? `${stats.volumeChangePercent >= 0 ? '+' : ''}${stats.volumeChangePercent.toFixed(1)}%`
+            : '',
+          stats.personalRecord ? 'PR' : '',
+        ]);
+      }
+    }
+
+    return rows;
+  }
+
+  static toTable(report: ProgressReport): string {
+    const rows = [REPORT_COLUMNS, ...this.toRows(report)];
+    const widths = REPORT_COLUMNS.map((_, column) => Math.max(...rows.map((row) => row[column]!.length)));
+
+    const lines = rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd());
+    lines.splice(1, 0, widths.map((width) => '-'.repeat(width)).join('  '));
+
+    return [`Loads in ${report.unit}`, ...lines].join('\n');
+  }
+
+  static toCsv(report: ProgressReport): string {
+    const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    return [REPORT_COLUMNS, ...this.toRows(report)]
+      .map((row) => row.map(escape).join(','))
+      .join('\n');
+  }
+
+  static estimateOneRepMax(load: number, reps: number): number {
+    // Epley formula; a single rep is already a max
+    return reps <= 1 ? load : load * (1 + reps / 30);
+  }
+
+  private static collectExercises(sessions: WorkoutSession[]): ExercisePrescription[] {
+    const exercises: ExercisePrescription[] = [];
+
+    for (const session of sessions) {
+      for (const section of session.sections) {
+        for (const item of section.items ?? []) {
+          if (item.exercise?.name) {
+            exercises.push(item.exercise);
+          }
+        }
+      }
+    }
+
+    return exercises;
+  }
+
+  private static accumulate(stats: ExerciseWeekStats, exercise: ExercisePrescription, unit: WeightUnit): void {
+    const sets = exercise.sets ?? 1;
+    // Use the bottom of a rep range: it is the work that is actually guaranteed
+    const reps = exercise.reps?.min ?? 0;
+    const load = this.toUnit(exercise, unit);
+
+    stats.sets += sets;
+    stats.reps += sets * reps;
+
+    if (load !== undefined && reps > 0) {
+      stats.volume += sets * reps * load;
+      stats.topLoad = Math.max(stats.topLoad ?? 0, load);
+      stats.estimated1RM = Math.max(stats.estimated1RM ?? 0, this.estimateOneRepMax(load, reps));
+    }
+  }
+
+  private static computeTrendsAndRecords(progress: ExerciseProgress): void {
+    let previous: ExerciseWeekStats | undefined;
+
+    for (const stats of progress.weeks) {
+      if (previous && previous.volume > 0 && stats.volume > 0) {
+        stats.volumeChangePercent = ((stats.volume - previous.volume) / previous.volume) * 100;
+      }
+
+      const { records } = progress;
+      let isRecord = false;
+
+      if (stats.topLoad !== undefined && stats.topLoad > (records.topLoad?.value ?? 0)) {
+        isRecord = records.topLoad !== undefined;
+        records.topLoad = { value: stats.topLoad, weekNumber: stats.weekNumber };
+      }
+      if (stats.estimated1RM !== undefined && stats.estimated1RM > (records.estimated1RM?.value ?? 0)) {
+        isRecord = isRecord || records.estimated1RM !== undefined;
+        records.estimated1RM = { value: stats.estimated1RM, weekNumber: stats.weekNumber };
+      }
+      if (stats.volume > (records.volume?.value ?? 0)) {
+        records.volume = { value: stats.volume, weekNumber: stats.weekNumber };
+      }
+
+      // The first week an exercise appears sets the baseline rather than a PR
+      stats.personalRecord = isRecord;
+      previous = stats;
+    }
+  }
+
+  private static toUnit(exercise: ExercisePrescription, unit: WeightUnit): number | undefined {
+    const load = exercise.load;
+    if (!load || load.value === undefined || (load.unit !== 'lb' && load.unit !== 'kg' && load.unit !== undefined)) {
+      return undefined;
+    }
+
+    // Loads without a unit are assumed to be in the report unit
+    const sourceUnit = load.unit ?? unit;
+    if (sourceUnit === unit) {
+      return load.value;
+    }
+    return sourceUnit === 'kg' ? load.value / KG_PER_LB : load.value * KG_PER_LB;
+  }
+
+  private static singularize(word: string): string {
+    if (word.length > 2 && word.endsWith('s') && !word.endsWith('ss')) {
+      return word.slice(0, -1);
+    }
+    return word;
+  }
+
+  private static toDisplayName(key: string): string {
+    return key.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+  }
+
+  private static formatNumber(value?: number): string {
+    if (value === undefined) {
+      return '';
+    }
+    return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+  }
+}
@@ -0,0 +1,149 @@
+import { Command } from 'commander';
+import { WorkoutParser } from './parser';
+import { ProgressAnalyzer, type ProgressReport, type WeekSessions, type WeightUnit } from './analytics';
+import { loadConfig } from './config';
+import { UsageError, addGlobalOptions, runProgram } from './cli';
+import { formatMissingArguments, openSheet, requireSheetReference, resolveTab } from './pipeline';
+import fs from 'fs/promises';
+
+function splitGridIntoWeeks(grid: any[][], axis: 'rows' | 'columns', startWeek: number): WeekSessions[] {
+  if (axis === 'rows') {
+    return grid.map((row, index) => ({
+      weekNumber: startWeek + index,
+      sessions: WorkoutParser.parseWorkoutData([row]),
+    }));
+  }
+
+  const columnCount = Math.max(0, ...grid.map((row) => row.length));
+  const weeks: WeekSessions[] = [];
+  for (let column = 0; column < columnCount; column++) {
+    weeks.push({
+      weekNumber: startWeek + column,
+      sessions: WorkoutParser.parseWorkoutData(grid.map((row) => [row[column]])),
+    });
+  }
+  return weeks;
+}
+
+export interface AnalyzeOptions {
+  sheetOwner?: string;
+  sheetTitle?: string;
+  weeks?: string[];
+  range?: string;
+  tab?: string;
+  weekAxis?: string;
+  startWeek?: string;
+  unit?: string;
+  profile?: string;
+}
+
+const USAGE = [
+  '--sheet-owner <email>     Google Sheets owner email',
+  '--sheet-title <title>     Google Sheets document title',
+  '--weeks <ranges...>       One cell range per week',
+  '  or --range <range>      A grid of weeks (with --week-axis rows|columns)',
+];
+
+/**
+ * Reads the requested weeks and computes the per-exercise progress report.
+ */
+export async function analyzeProgress(options: AnalyzeOptions): Promise<ProgressReport> {
+  const config = await loadConfig({ profile: options.profile });
+  const { sheetOwner, sheetTitle } = requireSheetReference(options, config, USAGE);
+  const startWeek = parseInt(options.startWeek ?? '1');
+  const unit = options.unit ?? 'lb';
+  const weekAxis = options.weekAxis ?? 'rows';
+
+  if (!options.weeks && !options.range) {
+    throw new UsageError(formatMissingArguments(USAGE));
+  }
+  if (unit !== 'lb' && unit !== 'kg') {
+    throw new UsageError(`Invalid --unit "${unit}". Expected lb or kg`);
+  }
+  if (weekAxis !== 'rows' && weekAxis !== 'columns') {
+    throw new UsageError(`Invalid --week-axis "${weekAxis}". Expected rows or columns`);
+  }
+  if (isNaN(startWeek)) {
+    throw new UsageError(`Invalid --start-week "${options.startWeek}"`);
+  }
+
+  // Progress goes to stderr so stdout carries only the report
+  const log = console.log;
+  console.log = console.error;
+  try {
+    const sheet = await openSheet(config, sheetOwner, sheetTitle);
+    const tab = await resolveTab(sheet, options.tab);
+    const weeks: WeekSessions[] = [];
+
+    if (options.weeks) {
+      for (const [index, range] of options.weeks.entries()) {
+        console.error(`Extracting week ${startWeek + index} from range: ${range}`);
+        const data = await sheet.sheetsClient.getCellRange(sheet.sheetInfo.id, range, tab);
+        weeks.push({ weekNumber: startWeek + index, sessions: WorkoutParser.parseWorkoutData(data) });
+      }
+    } else {
+      console.error(`Extracting weeks from range: ${options.range}`);
+      const data = await sheet.sheetsClient.getCellRange(sheet.sheetInfo.id, options.range!, tab);
+      weeks.push(...splitGridIntoWeeks(data, weekAxis, startWeek));
+    }
+
+    const report = ProgressAnalyzer.analyze(weeks, unit as WeightUnit);
+    console.error(`Analyzed ${report.exercises.length} exercises across ${weeks.length} weeks`);
+    return report;
+  } finally {
+    console.log = log;
+  }
+}
+
+export function analyzeCommand(name: string = 'analyze'): Command {
+  const command = new Command(name);
+
+  command
+    .description('Report per-exercise volume, estimated 1RM, PRs and weekly trends across program weeks')
+    .option('--sheet-owner <email>', 'Google Sheets owner email')
+    .option('--sheet-title <title>', 'Google Sheets document title')
+    .option('--weeks <ranges...>', 'One cell range per week, in order (e.g., B2:E2 B3:E3)')
+    .option('--range <range>', 'A single grid containing several weeks (e.g., B2:E13)')
+    .option('--tab <tab>', 'Tab to read from (name, or "date:<format>" for the latest dated tab)')
+    .option('--week-axis <axis>', 'Whether each row or each column of --range is a week (rows|columns)', 'rows')
+    .option('--start-week <number>', 'Week number of the first range', '1')
+    .option('--unit <unit>', 'Report loads in lb or kg', 'lb')
+    .option('--format <format>', 'Output format (table|csv|json)', 'table')
+    .option('--out <file>', 'Write the report to a file instead of the console')
+    .action(async (_, actionCommand: Command) => {
+      const options = actionCommand.optsWithGlobals();
+      const format = options.json ? 'json' : options.format;
+
+      if (!['table', 'csv', 'json'].includes(format)) {
+        throw new UsageError(`Invalid --format "${format}". Expected table, csv or json`);
+      }
+
+      const report = await analyzeProgress(options);
+
+      let output: string;
+      switch (format) {
+        case 'json':
+          output = JSON.stringify(report, null, 2);
+          break;
+        case 'csv':
+          output = ProgressAnalyzer.toCsv(report);
+          break;
+        default:
+          output = ProgressAnalyzer.toTable(report);
+          break;
+      }
+
+      if (options.out) {
+        await fs.writeFile(options.out, `${output}\n`, 'utf8');
+        console.error(`Report written to ${options.out}`);
+      } else {
+        process.stdout.write(`${output}\n`);
+      }
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(analyzeCommand()));
+}
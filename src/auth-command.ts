@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import { GoogleSheetsAuth, SCOPE_SETS, type AuthScopeSet, type AuthStatus } from './auth';
+import { loadConfig } from './config';
+import { EXIT_CODES, UsageError, addGlobalOptions, printResult, runProgram, type GlobalOptions } from './cli';
+
+function printStatus(status: AuthStatus): void {
+  if (status.method === 'service-account') {
+    console.log('Method:        service account');
+    console.log(`Key file:      ${status.credentialsPath}`);
+    console.log(`Account:       ${status.serviceAccountEmail ?? '-'}`);
+  } else {
+    console.log('Method:        OAuth (user)');
+    console.log(`Credentials:   ${status.credentialsPath}`);
+    console.log(`Token file:    ${status.tokenPath}${status.tokenStored ? '' : ' (not found)'}`);
+    console.log(`Encrypted:     ${status.tokenStored ? (status.tokenEncrypted ? 'yes' : 'no') : '-'}`);
+    console.log(`Refresh token: ${status.tokenStored ? (status.hasRefreshToken ? 'yes' : 'no') : '-'}`);
+  }
+
+  console.log(`Scopes:        ${status.scopes.length > 0 ? status.scopes.join('\n               ') : '-'}`);
+  console.log(`Expires:       ${status.expiresAt ? status.expiresAt.toLocaleString() : '-'}`);
+  console.log(`Valid:         ${status.valid ? 'yes' : 'no'}${status.error ? ` (${status.error})` : ''}`);
+}
+
+function parseScopeSet(value: string): AuthScopeSet {
+  if (!(value in SCOPE_SETS)) {
+    throw new UsageError(`Invalid --scopes "${value}". Expected one of: ${Object.keys(SCOPE_SETS).join(', ')}`);
+  }
+  return value as AuthScopeSet;
+}
+
+export function authCommand(name: string = 'auth'): Command {
+  const command = new Command(name);
+
+  command
+    .description('Inspect, create and revoke stored Google credentials');
+
+  command
+    .command('status')
+    .description('Show which credentials are used, where the token is stored and whether it is valid')
+    .action(async (_, actionCommand: Command) => {
+      const config = await loadConfig({ profile: actionCommand.optsWithGlobals<GlobalOptions>().profile });
+      const status = await GoogleSheetsAuth.fromConfig(config).status();
+
+      printResult(actionCommand, status, printStatus);
+
+      if (!status.valid) {
+        process.exitCode = EXIT_CODES.failure;
+      }
+    });
+
+  command
+    .command('login')
+    .description('Authorize with Google and store a new token')
+    .option('--scopes <set>', `Access to request (${Object.keys(SCOPE_SETS).join('|')})`, 'write')
+    .option('--headless', 'Paste the redirected URL instead of using a local callback server')
+    .action(async (options, actionCommand: Command) => {
+      const config = await loadConfig({ profile: actionCommand.optsWithGlobals<GlobalOptions>().profile });
+      const auth = GoogleSheetsAuth.fromConfig(config, {
+        scopes: parseScopeSet(options.scopes),
+        headless: options.headless,
+      });
+
+      await auth.login();
+      console.log('✅ Logged in');
+    });
+
+  command
+    .command('logout')
+    .description('Revoke the stored token with Google and delete it')
+    .option('--no-revoke', 'Only delete the local token')
+    .action(async (options, actionCommand: Command) => {
+      const config = await loadConfig({ profile: actionCommand.optsWithGlobals<GlobalOptions>().profile });
+      const removed = await GoogleSheetsAuth.fromConfig(config).logout(options.revoke);
+      console.log(removed ? '✅ Logged out' : 'No stored token found');
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(authCommand()));
+}
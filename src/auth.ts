@@ -1,34 +1,133 @@
 import { google } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
 import fs from 'fs/promises';
-import path from 'path';
+import http from 'http';
+import readline from 'readline';
+import type { Config } from './config';
+import { TOKEN_PASSPHRASE_ENV, TokenStore, type TokenEncryption } from './token-store';
+
+const SHEETS_READONLY_SCOPE = 'https://www.googleapis.com/auth/spreadsheets.readonly';
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+const DRIVE_METADATA_READONLY_SCOPE = 'https://www.googleapis.com/auth/drive.metadata.readonly';
+const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive';
+
+// Scopes each command needs: reading sessions, writing notes and log rows, or
+// also commenting on the spreadsheet through Drive
+export type AuthScopeSet = 'read' | 'write' | 'comment';
+
+export const SCOPE_SETS: Record<AuthScopeSet, string[]> = {
+  read: [SHEETS_READONLY_SCOPE, DRIVE_METADATA_READONLY_SCOPE],
+  write: [SHEETS_SCOPE, DRIVE_METADATA_READONLY_SCOPE],
+  comment: [SHEETS_SCOPE, DRIVE_SCOPE],
+};
+
+// A granted scope on the left also satisfies the scopes on the right
+const IMPLIED_SCOPES: Record<string, string[]> = {
+  [SHEETS_SCOPE]: [SHEETS_READONLY_SCOPE],
+  [DRIVE_SCOPE]: [DRIVE_METADATA_READONLY_SCOPE],
+};
 
-const SCOPES = ['https://www.googleapis.com/auth/spreadsheets.readonly', 'https://www.googleapis.com/auth/drive.metadata.readonly'];
-const TOKEN_PATH = 'token.json';
 const CREDENTIALS_PATH = 'credentials.json';
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface GoogleSheetsAuthOptions {
+  scopes?: AuthScopeSet;
+  // Print the URL and read the redirected URL from stdin instead of listening
+  // on localhost. Defaults to on inside SSH sessions or with WORKOUT_AUTH_HEADLESS=1.
+  headless?: boolean;
+  credentialsPath?: string;
+  // Authenticate as a service account instead of a user
+  serviceAccountKeyPath?: string;
+  tokenPath?: string;
+  tokenEncryption?: TokenEncryption;
+}
+
+export interface AuthStatus {
+  method: 'oauth' | 'service-account';
+  credentialsPath: string;
+  serviceAccountEmail?: string;
+  tokenPath?: string;
+  tokenStored: boolean;
+  tokenEncrypted: boolean;
+  scopes: string[];
+  hasRefreshToken: boolean;
+  expiresAt?: Date;
+  valid: boolean;
+  error?: string;
+}
 
 export class GoogleSheetsAuth {
   private oAuth2Client: OAuth2Client | null = null;
+  private scopes: string[];
+  private headless: boolean;
+  private credentialsPath: string;
+  private serviceAccountKeyPath?: string;
+  private tokenStore: TokenStore;
+
+  constructor(options: GoogleSheetsAuthOptions = {}) {
+    this.scopes = SCOPE_SETS[options.scopes ?? 'read'];
+    this.headless = options.headless ?? isHeadlessEnvironment();
+    this.credentialsPath = options.credentialsPath ?? CREDENTIALS_PATH;
+    this.serviceAccountKeyPath = options.serviceAccountKeyPath;
+    this.tokenStore = new TokenStore(options.tokenPath, options.tokenEncryption);
+  }
+
+  /**
+   * Builds an authenticator from the `google` config section. The token
+   * passphrase is only read from WORKOUT_TOKEN_PASSPHRASE, never from config.json.
+   */
+  static fromConfig(config: Config, options: Pick<GoogleSheetsAuthOptions, 'scopes' | 'headless'> = {}): GoogleSheetsAuth {
+    const google = config.google ?? {};
+    const passphrase = process.env[TOKEN_PASSPHRASE_ENV];
+
+    let tokenEncryption: TokenEncryption | undefined;
+    if (google.tokenKeyFile) {
+      tokenEncryption = { kind: 'keyfile', keyFilePath: google.tokenKeyFile };
+    } else if (passphrase) {
+      tokenEncryption = { kind: 'passphrase', passphrase };
+    } else if (google.encryptToken) {
+      throw new Error(`google.encryptToken is set: provide a passphrase in ${TOKEN_PASSPHRASE_ENV} or set google.tokenKeyFile`);
+    }
+
+    return new GoogleSheetsAuth({
+      ...options,
+      credentialsPath: google.credentialsPath,
+      serviceAccountKeyPath: google.serviceAccountKeyPath,
+      tokenPath: google.tokenPath,
+      tokenEncryption,
+    });
+  }
 
   async authenticate(): Promise<OAuth2Client> {
-    const credentials = await this.loadCredentials();
-    const { client_secret, client_id, redirect_uris } = credentials.installed || credentials.web;
+    if (this.serviceAccountKeyPath) {
+      return await this.authenticateServiceAccount();
+    }
 
-    // Guard against deprecated OOB redirect URIs which cause Error 400: invalid_request
-    const usesDeprecatedOob = Array.isArray(redirect_uris)
-      && redirect_uris.some((u: string) => typeof u === 'string' && u.includes('urn:ietf:wg:oauth:2.0:oob'));
-    if (usesDeprecatedOob) {
-      throw new Error(
-        'The OAuth client in credentials.json uses the deprecated OOB redirect URI (urn:ietf:wg:oauth:2.0:oob). '
-        + 'Google blocks this with Error 400: invalid_request. Create a new OAuth client with Application type "Desktop app" '
-        + 'so its redirect URIs are loopback (http://localhost). Download the new JSON and replace credentials.json, then re-run.'
-      );
+    this.oAuth2Client = await this.createOAuthClient();
+
+    let token: any;
+    try {
+      token = await this.loadToken();
+    } catch (error: any) {
+      // A token that exists but cannot be read (e.g. encrypted without the
+      // passphrase) must not be silently replaced
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+      console.log('No stored token found, starting authorization...');
+      return await this.getNewToken();
     }
 
-    this.oAuth2Client = new google.auth.OAuth2(client_id, client_secret, redirect_uris[0]);
+    const grantedScopes = getGrantedScopes(token);
+    const missingScopes = this.scopes.filter((scope) => !hasScope(grantedScopes, scope));
+    if (missingScopes.length > 0) {
+      console.log(`This command needs additional access (${missingScopes.join(', ')}), requesting consent...`);
+      return await this.getNewToken(grantedScopes);
+    }
 
     try {
-      const token = await this.loadToken();
       this.oAuth2Client.setCredentials(token);
 
       // Set up automatic token refresh
@@ -54,52 +153,205 @@ export class GoogleSheetsAuth {
     }
   }
 
+  /**
+   * Runs the consent flow even when a valid token is stored.
+   */
+  async login(): Promise<OAuth2Client> {
+    if (this.serviceAccountKeyPath) {
+      return await this.authenticateServiceAccount();
+    }
+
+    this.oAuth2Client = await this.createOAuthClient();
+    const token = await this.loadToken().catch(() => null);
+    return await this.getNewToken(token ? getGrantedScopes(token) : []);
+  }
+
+  /**
+   * Deletes the stored token, first revoking it with Google unless `revoke` is false.
+   * Returns whether a token was removed.
+   */
+  async logout(revoke: boolean = true): Promise<boolean> {
+    if (!(await this.tokenStore.exists())) {
+      return false;
+    }
+
+    if (revoke) {
+      const token = await this.loadToken();
+      const revocable = token.refresh_token ?? token.access_token;
+      if (revocable) {
+        const client = await this.createOAuthClient();
+        try {
+          await client.revokeToken(revocable);
+        } catch (error) {
+          // An expired or already revoked token still gets deleted locally
+          console.log(`Could not revoke token with Google: ${error}`);
+        }
+      }
+    }
+
+    return await this.tokenStore.delete();
+  }
+
+  async status(): Promise<AuthStatus> {
+    if (this.serviceAccountKeyPath) {
+      const status: AuthStatus = {
+        method: 'service-account',
+        credentialsPath: this.serviceAccountKeyPath,
+        tokenStored: false,
+        tokenEncrypted: false,
+        scopes: this.scopes,
+        hasRefreshToken: false,
+        valid: false,
+      };
+      try {
+        const client = await this.authenticateServiceAccount();
+        status.serviceAccountEmail = (client as any).email;
+        status.expiresAt = client.credentials.expiry_date ? new Date(client.credentials.expiry_date) : undefined;
+        status.valid = true;
+      } catch (error) {
+        status.error = `${error}`;
+      }
+      return status;
+    }
+
+    const status: AuthStatus = {
+      method: 'oauth',
+      credentialsPath: this.credentialsPath,
+      tokenPath: this.tokenStore.filePath,
+      tokenStored: await this.tokenStore.exists(),
+      tokenEncrypted: await this.tokenStore.isStoredEncrypted(),
+      scopes: [],
+      hasRefreshToken: false,
+      valid: false,
+    };
+
+    if (!status.tokenStored) {
+      return status;
+    }
+
+    try {
+      const token = await this.loadToken();
+      status.scopes = getGrantedScopes(token);
+      status.hasRefreshToken = Boolean(token.refresh_token);
+      status.expiresAt = token.expiry_date ? new Date(token.expiry_date) : undefined;
+
+      this.oAuth2Client = await this.createOAuthClient();
+      this.oAuth2Client.setCredentials(token);
+      await this.validateToken();
+      status.valid = true;
+    } catch (error) {
+      status.error = `${error}`;
+    }
+
+    return status;
+  }
+
+  private async authenticateServiceAccount(): Promise<OAuth2Client> {
+    let key: any;
+    try {
+      key = JSON.parse(await fs.readFile(this.serviceAccountKeyPath!, 'utf8'));
+    } catch (error) {
+      throw new Error(`Error loading service account key from ${this.serviceAccountKeyPath}: ${error}`);
+    }
+
+    if (key.type !== 'service_account' || !key.client_email || !key.private_key) {
+      throw new Error(`${this.serviceAccountKeyPath} is not a service account key`);
+    }
+
+    const client = new google.auth.JWT({
+      email: key.client_email,
+      key: key.private_key,
+      scopes: this.scopes,
+    });
+
+    try {
+      await client.authorize();
+    } catch (error) {
+      throw new Error(`Service account authentication failed: ${error}`);
+    }
+
+    return client;
+  }
+
+  private async createOAuthClient(): Promise<OAuth2Client> {
+    const credentials = await this.loadCredentials();
+    const { client_secret, client_id, redirect_uris } = credentials.installed || credentials.web;
+
+    // Guard against deprecated OOB redirect URIs which cause Error 400: invalid_request
+    const usesDeprecatedOob = Array.isArray(redirect_uris)
+      && redirect_uris.some((u: string) => typeof u === 'string' && u.includes('urn:ietf:wg:oauth:2.0:oob'));
+    if (usesDeprecatedOob) {
+      throw new Error(
+        'The OAuth client in credentials.json uses the deprecated OOB redirect URI (urn:ietf:wg:oauth:2.0:oob). '
+        + 'Google blocks this with Error 400: invalid_request. Create a new OAuth client with Application type "Desktop app" '
+        + 'so its redirect URIs are loopback (http://localhost). Download the new JSON and replace credentials.json, then re-run.'
+      );
+    }
+
+    return new google.auth.OAuth2(client_id, client_secret, redirect_uris[0]);
+  }
+
   private async loadCredentials(): Promise<any> {
     try {
-      const content = await fs.readFile(CREDENTIALS_PATH, 'utf8');
+      const content = await fs.readFile(this.credentialsPath, 'utf8');
       return JSON.parse(content);
     } catch (error) {
-      throw new Error(`Error loading credentials from ${CREDENTIALS_PATH}: ${error}`);
+      throw new Error(`Error loading credentials from ${this.credentialsPath}: ${error}`);
     }
   }
 
   private async loadToken(): Promise<any> {
-    const content = await fs.readFile(TOKEN_PATH, 'utf8');
-    return JSON.parse(content);
+    return await this.tokenStore.load();
   }
 
-  private async getNewToken(): Promise<OAuth2Client> {
+  /**
+   * Runs the consent flow for this command's scopes plus any already granted,
+   * so upgrading from read to write access keeps existing permissions.
+   */
+  private async getNewToken(grantedScopes: string[] = []): Promise<OAuth2Client> {
     if (!this.oAuth2Client) {
       throw new Error('OAuth2Client not initialized');
     }
 
+    const scopes = Array.from(new Set([...grantedScopes, ...this.scopes]));
+    const { codeVerifier, codeChallenge } = await this.oAuth2Client.generateCodeVerifierAsync();
+    const state = randomBytes(16).toString('hex');
+
+    const callback = this.headless ? null : await startCallbackServer(state);
+    const redirectUri = callback?.redirectUri ?? 'http://localhost';
+
     const authUrl = this.oAuth2Client.generateAuthUrl({
       access_type: 'offline',
       prompt: 'consent',
-      scope: SCOPES,
+      scope: scopes,
+      include_granted_scopes: true,
+      redirect_uri: redirectUri,
+      state,
+      code_challenge_method: CodeChallengeMethod.S256,
+      code_challenge: codeChallenge,
     });
 
-    console.log('Authorize this app by visiting this url:', authUrl);
-    console.log('Enter the code from that page here:');
+    let code: string;
+    if (callback) {
+      console.log('Opening your browser to authorize this app. If it does not open, visit this url:');
+      console.log(authUrl);
+      openBrowser(authUrl);
+      code = await callback.code;
+    } else {
+      console.log('Authorize this app by visiting this url on any device:', authUrl);
+      console.log('After approving, the browser is redirected to a localhost page that will not load.');
+      code = parseAuthorizationResponse(await promptLine('Paste the full URL from the address bar here: '), state);
+    }
 
-    return new Promise((resolve, reject) => {
-      process.stdin.once('data', async (data) => {
-        const code = data.toString().trim();
-        try {
-          const { tokens } = await this.oAuth2Client!.getToken(code);
-          this.oAuth2Client!.setCredentials(tokens);
-          await this.storeToken(tokens);
-          resolve(this.oAuth2Client!);
-        } catch (error) {
-          reject(error);
-        }
-      });
-    });
+    const { tokens } = await this.oAuth2Client.getToken({ code, codeVerifier, redirect_uri: redirectUri });
+    this.oAuth2Client.setCredentials(tokens);
+    await this.storeToken(tokens);
+    return this.oAuth2Client;
   }
 
   private async storeToken(token: any): Promise<void> {
-    await fs.writeFile(TOKEN_PATH, JSON.stringify(token));
-    console.log('Token stored to', TOKEN_PATH);
+    await this.tokenStore.save(token);
+    console.log('Token stored to', this.tokenStore.filePath);
   }
 
   private async validateToken(): Promise<void> {
@@ -143,3 +395,124 @@ export class GoogleSheetsAuth {
     }
   }
 }
+
+function getGrantedScopes(token: any): string[] {
+  // Tokens stored before scopes were tracked were granted the read-only set
+  return typeof token.scope === 'string' ? token.scope.split(/\s+/).filter(Boolean) : SCOPE_SETS.read;
+}
+
+function hasScope(grantedScopes: string[], scope: string): boolean {
+  return grantedScopes.some((granted) => granted === scope || IMPLIED_SCOPES[granted]?.includes(scope));
+}
+
+function isHeadlessEnvironment(): boolean {
+  if (process.env.WORKOUT_AUTH_HEADLESS) {
+    return process.env.WORKOUT_AUTH_HEADLESS !== '0' && process.env.WORKOUT_AUTH_HEADLESS !== 'false';
+  }
+  return Boolean(process.env.SSH_CONNECTION || process.env.SSH_TTY);
+}
+
+/**
+ * Extracts the authorization code from a pasted redirect URL (or a bare code),
+ * rejecting responses whose state does not match the request.
+ */
+function parseAuthorizationResponse(input: string, expectedState: string): string {
+  const trimmed = input.trim();
+  if (!trimmed.includes('code=')) {
+    if (!trimmed) {
+      throw new Error('No authorization code provided');
+    }
+    return trimmed;
+  }
+
+  const params = new URL(trimmed, 'http://localhost').searchParams;
+  const error = params.get('error');
+  if (error) {
+    throw new Error(`Authorization was denied: ${error}`);
+  }
+  if (params.get('state') !== expectedState) {
+    throw new Error('Authorization response state does not match the request');
+  }
+  return params.get('code')!;
+}
+
+/**
+ * Listens on an ephemeral localhost port for Google's redirect and resolves
+ * with the authorization code. Desktop OAuth clients accept any loopback port.
+ */
+async function startCallbackServer(state: string): Promise<{ redirectUri: string; code: Promise<string> }> {
+  const server = http.createServer();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+
+  const address = server.address();
+  if (!address || typeof address === 'string') {
+    server.close();
+    throw new Error('Could not start the local authorization server');
+  }
+  const redirectUri = `http://127.0.0.1:${address.port}`;
+
+  const code = new Promise<string>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      server.close();
+      reject(new Error('Timed out waiting for authorization in the browser'));
+    }, CALLBACK_TIMEOUT_MS);
+
+    server.on('request', (request, response) => {
+      const url = new URL(request.url ?? '/', redirectUri);
+      if (!url.searchParams.has('code') && !url.searchParams.has('error')) {
+        response.writeHead(404).end();
+        return;
+      }
+
+      let result: { code?: string; error?: Error };
+      try {
+        result = { code: parseAuthorizationResponse(url.toString(), state) };
+      } catch (error) {
+        result = { error: error as Error };
+      }
+
+      response.writeHead(result.code ? 200 : 400, { 'Content-Type': 'text/html; charset=utf-8' });
+      response.end(result.code
+        ? '<p>Authorization complete. You can close this tab and return to the terminal.</p>'
+        : `<p>Authorization failed: ${result.error!.message}</p>`);
+
+      clearTimeout(timeout);
+      server.close();
+      if (result.code) {
+        resolve(result.code);
+      } else {
+        reject(result.error);
+      }
+    });
+  });
+
+  return { redirectUri, code };
+}
+
+function openBrowser(url: string): void {
+  const command = process.platform === 'darwin' ? 'open' : process.platform === 'win32' ? 'cmd' : 'xdg-open';
+  const args = process.platform === 'win32' ? ['/c', 'start', '""', url] : [url];
+
+  try {
+    const child = spawn(command, args, { stdio: 'ignore', detached: true });
+    // The URL is already printed, so a missing opener is not an error
+    child.on('error', () => {});
+    child.unref();
+  } catch {
+    // Ignore: the user can open the printed URL
+  }
+}
+
+function promptLine(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
@@ -0,0 +1,47 @@
+/*
+ * Constructors for the Notion block JSON sent to the API. Text arguments are
+ * either plain strings or rich text built with buildRichText.
+ */
+
+type TextInput = string | any[];
+
+function toRichText(text: TextInput): any[] {
+  return typeof text === 'string' ? [{ type: 'text', text: { content: text } }] : text;
+}
+
+export function paragraph(text: TextInput): any {
+  return { object: 'block', type: 'paragraph', paragraph: { rich_text: toRichText(text) } };
+}
+
+export function heading(level: 1 | 2 | 3, text: TextInput): any {
+  const type = `heading_${level}`;
+  return { object: 'block', type, [type]: { rich_text: toRichText(text) } };
+}
+
+export function bulletedListItem(text: TextInput): any {
+  return { object: 'block', type: 'bulleted_list_item', bulleted_list_item: { rich_text: toRichText(text) } };
+}
+
+export function toDo(text: TextInput, checked: boolean = false): any {
+  return { object: 'block', type: 'to_do', to_do: { rich_text: toRichText(text), checked } };
+}
+
+export function toggle(text: TextInput, children: any[]): any {
+  return { object: 'block', type: 'toggle', toggle: { rich_text: toRichText(text), children } };
+}
+
+export function callout(text: TextInput, emoji: string, children: any[]): any {
+  return {
+    object: 'block',
+    type: 'callout',
+    callout: {
+      rich_text: toRichText(text),
+      icon: { type: 'emoji', emoji },
+      children,
+    },
+  };
+}
+
+export function embed(url: string): any {
+  return { object: 'block', type: 'embed', embed: { url } };
+}
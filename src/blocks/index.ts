@@ -0,0 +1,7 @@
+export { WorkoutBlockBuilder } from './workout-block-builder';
+export type { BlockBuilderOptions, BlockRendering, SectionRenderer } from './workout-block-builder';
+export { buildRichText } from './rich-text';
+export type { RichTextOptions } from './rich-text';
+export * from './elements';
+export { blocksToMarkdown, richTextToMarkdown } from './markdown';
+export type { MarkdownOptions } from './markdown';
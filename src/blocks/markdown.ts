@@ -0,0 +1,209 @@
+/*
+ * Converts Notion blocks, as returned by the API with nested `children`, back
+ * to Markdown. Used for post-workout comments and for exporting pages.
+ */
+
+export interface MarkdownOptions {
+  // Keep bold, italic, strikethrough, code and links (default true)
+  annotations?: boolean;
+  // Include images, videos, files, embeds and bookmarks as links (default true)
+  media?: boolean;
+}
+
+const MEDIA_BLOCK_TYPES = ['image', 'video', 'audio', 'file', 'pdf', 'embed', 'bookmark', 'link_preview'];
+
+/**
+ * Every segment of a rich text array, with annotations and links as Markdown.
+ */
+export function richTextToMarkdown(richText: any[] | undefined, annotations: boolean = true): string {
+  return (richText ?? []).map((segment) => segmentToMarkdown(segment, annotations)).join('');
+}
+
+export function blocksToMarkdown(blocks: any[], options: MarkdownOptions = {}): string {
+  return trimBlankLines(renderBlocks(blocks, '', options)).join('\n');
+}
+
+function segmentToMarkdown(segment: any, annotations: boolean): string {
+  const text: string = segment.type === 'equation'
+    ? segment.equation?.expression ?? segment.plain_text ?? ''
+    : segment.plain_text ?? segment.text?.content ?? '';
+
+  if (!annotations || !text) {
+    return text;
+  }
+  if (segment.type === 'equation') {
+    return `$${text}$`;
+  }
+
+  // Markers must touch the text, so surrounding whitespace stays outside them
+  const [, leading, core, trailing] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) {
+    return text;
+  }
+
+  const marks = segment.annotations ?? {};
+  let result = marks.code ? `\`${core}\`` : core;
+  if (marks.bold) {
+    result = `**${result}**`;
+  }
+  if (marks.italic) {
+    result = `*${result}*`;
+  }
+  if (marks.strikethrough) {
+    result = `~~${result}~~`;
+  }
+
+  const href = segment.href ?? segment.text?.link?.url;
+  if (href) {
+    result = `[${result}](${href})`;
+  }
+
+  return `${leading}${result}${trailing}`;
+}
+
+function renderBlocks(blocks: any[], indent: string, options: MarkdownOptions): string[] {
+  const lines: string[] = [];
+  let listNumber = 0;
+
+  for (const block of blocks) {
+    listNumber = block.type === 'numbered_list_item' ? listNumber + 1 : 0;
+    lines.push(...renderBlock(block, indent, listNumber, options));
+  }
+
+  return lines;
+}
+
+function renderBlock(block: any, indent: string, listNumber: number, options: MarkdownOptions): string[] {
+  const data = block[block.type] ?? {};
+  const children: any[] = block.children ?? data.children ?? [];
+  const text = richTextToMarkdown(data.rich_text, options.annotations ?? true);
+
+  // A list marker and the children indented to line up with its text
+  const item = (marker: string): string[] => [
+    `${indent}${marker}${text}`,
+    ...renderBlocks(children, indent + ' '.repeat(marker.length), options),
+  ];
+
+  switch (block.type) {
+    case 'heading_1':
+    case 'heading_2':
+    case 'heading_3': {
+      const heading = text ? [`${'#'.repeat(Number(block.type.slice(-1)))} ${text}`] : [];
+      // Toggleable headings hold their content as children
+      return [...heading, ...renderBlocks(children, indent, options)];
+    }
+
+    case 'paragraph':
+      return [`${indent}${text}`, ...renderBlocks(children, indent + '  ', options)];
+
+    case 'bulleted_list_item':
+      return item('- ');
+
+    case 'numbered_list_item':
+      return item(`${listNumber}. `);
+
+    case 'to_do':
+      return item(`- [${data.checked ? 'x' : ' '}] `);
+
+    case 'toggle':
+      return [`${indent}${text}`, ...renderBlocks(children, indent + '  ', options)];
+
+    case 'quote':
+      return quote([text, ...renderBlocks(children, '', options)], indent);
+
+    case 'callout': {
+      const icon = data.icon?.type === 'emoji' ? `${data.icon.emoji} ` : '';
+      return quote([`${icon}${text}`, ...renderBlocks(children, '', options)], indent);
+    }
+
+    case 'code':
+      return fence([
+        `${indent}\`\`\`${data.language && data.language !== 'plain text' ? data.language : ''}`,
+        ...richTextToMarkdown(data.rich_text, false).split('\n').map((line) => `${indent}${line}`),
+        `${indent}\`\`\``,
+      ]);
+
+    case 'equation':
+      return fence([`${indent}$$`, `${indent}${data.expression ?? ''}`, `${indent}$$`]);
+
+    case 'divider':
+      return fence([`${indent}---`]);
+
+    case 'table':
+      return fence(renderTable(children, Boolean(data.has_column_header), options).map((line) => `${indent}${line}`));
+
+    case 'child_page':
+      return [`${indent}${data.title ?? ''}`];
+
+    case 'column_list':
+    case 'column':
+    case 'synced_block':
+      return renderBlocks(children, indent, options);
+
+    default:
+      if (MEDIA_BLOCK_TYPES.includes(block.type)) {
+        return options.media === false ? [] : renderMedia(block.type, data, indent, options);
+      }
+      // Unsupported blocks keep their text when they have any
+      return text ? [`${indent}${text}`] : [];
+  }
+}
+
+function renderMedia(type: string, data: any, indent: string, options: MarkdownOptions): string[] {
+  const url: string | undefined = data.url ?? data.external?.url ?? data.file?.url;
+  if (!url) {
+    return [];
+  }
+
+  const caption = richTextToMarkdown(data.caption, options.annotations ?? true);
+  return [type === 'image' ? `${indent}![${caption}](${url})` : `${indent}[${caption || url}](${url})`];
+}
+
+function renderTable(rows: any[], hasHeader: boolean, options: MarkdownOptions): string[] {
+  const cells: string[][] = rows
+    .filter((row) => row.type === 'table_row')
+    .map((row) => row.table_row.cells.map((cell: any[]) =>
+      richTextToMarkdown(cell, options.annotations ?? true).replace(/\|/g, '\\|').replace(/\n/g, ' ')
+    ));
+  if (cells.length === 0) {
+    return [];
+  }
+
+  // Markdown tables need a header row, so a headerless table gets an empty one
+  const width = Math.max(...cells.map((row) => row.length));
+  const header = hasHeader ? cells.shift()! : new Array(width).fill('');
+  const toLine = (row: string[]) => `| ${Array.from({ length: width }, (_, index) => row[index] ?? '').join(' | ')} |`;
+
+  return [toLine(header), `|${' --- |'.repeat(width)}`, ...cells.map(toLine)];
+}
+
+function quote(lines: string[], indent: string): string[] {
+  // Fenced so that two quotes in a row do not merge into one
+  return fence(lines.map((line) => (line ? `${indent}> ${line}` : `${indent}>`)));
+}
+
+/**
+ * Blank lines around blocks that would otherwise run into a neighbouring
+ * paragraph.
+ */
+function fence(lines: string[]): string[] {
+  return ['', ...lines, ''];
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  const result: string[] = [];
+  for (const line of lines) {
+    // Collapse runs of blank lines, e.g. between two fenced blocks
+    if (line === '' && result[result.length - 1] === '') {
+      continue;
+    }
+    result.push(line);
+  }
+  while (result[0] === '') {
+    result.shift();
+  }
+  while (result[result.length - 1] === '') {
+    result.pop();
+  }
+  return result;
+}
@@ -0,0 +1,83 @@
+export interface RichTextOptions {
+  // Bold the whole text
+  bold?: boolean;
+  // Bold the first occurrence of this text, e.g. the exercise name
+  emphasize?: string;
+  // Highlight sets x reps, loads, RPE and RIR
+  highlightPrescription?: boolean;
+}
+
+interface Span {
+  content: string;
+  bold?: boolean;
+  highlight?: boolean;
+  url?: string;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/g;
+const PRESCRIPTION_PATTERN = /\b\d+\s*[x×]\s*\d+(?:\s*[-–]\s*\d+)?(?!\d)|\b\d+(?:\.\d+)?\s*(?:lbs?|kg|%)(?![a-z])|\bRPE\s*:?\s*\d+(?:\.\d+)?|\bRIR\s*:?\s*\d+|\b\d+\s*RIR\b/gi;
+const HIGHLIGHT_COLOR = 'yellow_background';
+
+/**
+ * Builds Notion rich text for `text`, turning URLs into links and applying
+ * the requested emphasis.
+ */
+export function buildRichText(text: string, options: RichTextOptions = {}): any[] {
+  let spans: Span[] = [{ content: text, bold: options.bold }];
+
+  if (options.emphasize) {
+    const index = text.indexOf(options.emphasize);
+    if (index !== -1) {
+      const end = index + options.emphasize.length;
+      spans = [
+        { content: text.slice(0, index), bold: options.bold },
+        { content: text.slice(index, end), bold: true },
+        { content: text.slice(end), bold: options.bold },
+      ];
+    }
+  }
+
+  spans = splitSpans(spans, URL_PATTERN, (span, match) => ({ ...span, content: match, url: match }));
+
+  if (options.highlightPrescription) {
+    spans = splitSpans(spans, PRESCRIPTION_PATTERN, (span, match) => ({ ...span, content: match, highlight: true }));
+  }
+
+  return spans
+    .filter((span) => span.content)
+    .map((span) => ({
+      type: 'text',
+      text: {
+        content: span.content,
+        ...(span.url ? { link: { url: span.url } } : {}),
+      },
+      ...(span.bold || span.highlight
+        ? { annotations: { bold: !!span.bold, ...(span.highlight ? { color: HIGHLIGHT_COLOR } : {}) } }
+        : {}),
+    }));
+}
+
+/**
+ * Splits every unlinked span around the matches of `pattern`, replacing each
+ * match with `transform(span, match)`.
+ */
+function splitSpans(spans: Span[], pattern: RegExp, transform: (span: Span, match: string) => Span): Span[] {
+  const result: Span[] = [];
+
+  for (const span of spans) {
+    if (span.url) {
+      result.push(span);
+      continue;
+    }
+
+    let lastIndex = 0;
+    for (const match of span.content.matchAll(pattern)) {
+      result.push({ ...span, content: span.content.slice(lastIndex, match.index) });
+      result.push(transform(span, match[0]));
+      lastIndex = match.index! + match[0].length;
+    }
+    result.push({ ...span, content: span.content.slice(lastIndex) });
+  }
+
+  return result;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { WorkoutParser } from '../parser';
+import { WorkoutBlockBuilder, type BlockBuilderOptions } from './workout-block-builder';
+
+const DAY_CELL = [
+  'Warm up: bike 5 min, see https://example.com/warmup',
+  'A1. Back Squat 3x5 @ 225lb',
+  'Rest 90s between rounds',
+  'A2. Plank 3x:30',
+  'https://www.youtube.com/watch?v=abc123',
+  'B. Romanian Deadlift 3x8 RPE 8',
+  'Upper Body:',
+  'Bench Press 4x6 @ 185lb',
+  'Lower Body:',
+  'Walking Lunges 3x10 each leg',
+].join('\n');
+
+const WEEK_CELLS = [[
+  DAY_CELL,
+  'C1. Pull Ups 4x8\nC2. Push Ups 4x15\nC3. Farmer Carry 3x40m\nFinisher: row 500m',
+]];
+
+const RENDERINGS: [string, BlockBuilderOptions][] = [
+  ['plain', { rendering: 'plain' }],
+  ['rich', { rendering: 'rich' }],
+  ['rich with callout sections', { rendering: 'rich', sectionBlock: 'callout' }],
+];
+
+// Levels of children below the top-level blocks, counting `children` both on
+// the block and in its type data
+function nestingDepth(blocks: any[]): number {
+  return Math.max(0, ...blocks.map((block) => {
+    const children = block.children ?? block[block.type]?.children ?? [];
+    return children.length > 0 ? 1 + nestingDepth(children) : 0;
+  }));
+}
+
+describe('WorkoutBlockBuilder', () => {
+  for (const [name, options] of RENDERINGS) {
+    describe(name, () => {
+      const builder = new WorkoutBlockBuilder(options);
+
+      test('builds a day page', () => {
+        expect(builder.buildDay(WorkoutParser.parseSingleCell(DAY_CELL))).toMatchSnapshot();
+      });
+
+      test('builds a week page', () => {
+        expect(builder.buildWeek(WorkoutParser.parseWorkoutData(WEEK_CELLS))).toMatchSnapshot();
+      });
+
+      // Notion takes two levels per request: the blocks and their children
+      test('nests blocks at most two levels deep', () => {
+        expect(nestingDepth(builder.buildDay(WorkoutParser.parseSingleCell(DAY_CELL)))).toBeLessThanOrEqual(1);
+        expect(nestingDepth(builder.buildWeek(WorkoutParser.parseWorkoutData(WEEK_CELLS)))).toBeLessThanOrEqual(1);
+      });
+    });
+  }
+
+  test('rich items link URLs and highlight the prescription', () => {
+    const builder = new WorkoutBlockBuilder({ rendering: 'rich' });
+    const block = builder.buildItem('Back Squat 3x5 @ 225lb, form: https://example.com/squat', {
+      raw: 'Back Squat 3x5 @ 225lb, form: https://example.com/squat',
+      exercise: { name: 'Back Squat', perSide: false },
+    });
+
+    expect(block.type).toBe('to_do');
+    const segments = block.to_do.rich_text;
+    expect(segments.find((segment: any) => segment.text.content === 'Back Squat').annotations.bold).toBe(true);
+    expect(segments.find((segment: any) => segment.text.content === '3x5').annotations.color).toBe('yellow_background');
+    expect(segments.find((segment: any) => segment.text.content === '225lb').annotations.color).toBe('yellow_background');
+    expect(segments.find((segment: any) => segment.text.link).text.link.url).toBe('https://example.com/squat');
+  });
+});
@@ -0,0 +1,142 @@
+import type { WorkoutGroup, WorkoutSectionData, WorkoutSession } from '../notion';
+import type { WorkoutItem } from '../exercise-parser';
+import { describeGroup, groupSections } from '../parser';
+import { bulletedListItem, callout, embed, heading, paragraph, toDo, toggle } from './elements';
+import { buildRichText } from './rich-text';
+
+export type BlockRendering = 'plain' | 'rich';
+
+export type SectionRenderer = (section: WorkoutSectionData, builder: WorkoutBlockBuilder) => any[];
+
+export interface BlockBuilderOptions {
+  rendering?: BlockRendering;
+  // Block wrapping each lettered section in rich rendering
+  sectionBlock?: 'toggle' | 'callout';
+  // Replace the rendering of one section type
+  sectionRenderers?: Partial<Record<WorkoutSectionData['type'], SectionRenderer>>;
+}
+
+/**
+ * Turns parsed sessions into Notion blocks: session → group → section → item.
+ * Week and day pages, database rows and any other page type share it, and
+ * each level can be overridden by passing a section renderer or subclassing.
+ */
+export class WorkoutBlockBuilder {
+  readonly rendering: BlockRendering;
+  protected sectionBlock: 'toggle' | 'callout';
+  protected sectionRenderers: Partial<Record<WorkoutSectionData['type'], SectionRenderer>>;
+
+  constructor(options: BlockBuilderOptions = {}) {
+    this.rendering = options.rendering ?? 'plain';
+    this.sectionBlock = options.sectionBlock ?? 'toggle';
+    this.sectionRenderers = options.sectionRenderers ?? {};
+  }
+
+  /**
+   * A week page: each session under a "Session N" heading.
+   */
+  buildWeek(sessions: WorkoutSession[]): any[] {
+    return sessions.flatMap((session) => [
+      heading(2, `Session ${session.sessionNumber}`),
+      ...this.buildSession(session),
+    ]);
+  }
+
+  /**
+   * A day page, or any page holding a single session.
+   */
+  buildDay(session: WorkoutSession): any[] {
+    return this.buildSession(session);
+  }
+
+  buildSession(session: WorkoutSession): any[] {
+    return groupSections(session).flatMap(({ group, sections }) =>
+      group ? [this.buildGroup(group, sections)] : sections.flatMap((section) => this.buildSection(section))
+    );
+  }
+
+  /**
+   * A superset or circuit callout. Notion takes two levels of nested blocks
+   * per request, so its sections are built flat inside it.
+   */
+  buildGroup(group: WorkoutGroup, sections: WorkoutSectionData[]): any {
+    return callout(
+      buildRichText(describeGroup(group), { bold: true }),
+      group.kind === 'superset' ? '🔗' : '🔁',
+      sections.flatMap((section) => this.buildSection(section, true))
+    );
+  }
+
+  buildSection(section: WorkoutSectionData, nested: boolean = false): any[] {
+    const renderer = this.sectionRenderers[section.type];
+    if (renderer) {
+      return renderer(section, this);
+    }
+
+    switch (section.type) {
+      case 'section':
+        return this.buildLetteredSection(section, nested);
+      case 'upper_lower':
+        return this.buildUpperLowerSection(section);
+      case 'text':
+        return this.buildTextSection(section);
+    }
+  }
+
+  buildItem(line: string, item?: WorkoutItem): any {
+    if (this.rendering === 'plain') {
+      return bulletedListItem(line);
+    }
+
+    return toDo(buildRichText(line, { emphasize: item?.exercise?.name, highlightPrescription: true }));
+  }
+
+  buildItems(section: WorkoutSectionData): any[] {
+    return section.content.map((line, index) => this.buildItem(line, section.items[index]));
+  }
+
+  buildEmbeds(section: WorkoutSectionData): any[] {
+    return section.youtubeLinks.map((url) => embed(url));
+  }
+
+  /**
+   * "A." style sections. Rich rendering collapses them into a toggle (or
+   * callout) holding their exercises, or within a group a bold paragraph
+   * followed by them.
+   */
+  protected buildLetteredSection(section: WorkoutSectionData, nested: boolean = false): any[] {
+    if (!section.header) {
+      return this.rendering === 'plain' ? this.buildEmbeds(section) : [...this.buildItems(section), ...this.buildEmbeds(section)];
+    }
+
+    if (this.rendering === 'plain') {
+      return [paragraph(section.header), ...this.buildItems(section), ...this.buildEmbeds(section)];
+    }
+
+    const title = buildRichText(section.header, { bold: true });
+    if (nested) {
+      return [paragraph(title), ...this.buildItems(section), ...this.buildEmbeds(section)];
+    }
+
+    const children = [...this.buildItems(section), ...this.buildEmbeds(section)];
+    return [this.sectionBlock === 'callout' ? callout(title, '🏋️', children) : toggle(title, children)];
+  }
+
+  /**
+   * "Upper Body:" and "Lower Body:" stay headings in every rendering so
+   * post-workout can find them.
+   */
+  protected buildUpperLowerSection(section: WorkoutSectionData): any[] {
+    if (!section.header) {
+      return this.buildLetteredSection(section);
+    }
+
+    const title = this.rendering === 'plain' ? section.header : buildRichText(section.header);
+    return [heading(3, title), ...this.buildItems(section), ...this.buildEmbeds(section)];
+  }
+
+  protected buildTextSection(section: WorkoutSectionData): any[] {
+    const paragraphs = section.content.map((line) => paragraph(this.rendering === 'plain' ? line : buildRichText(line)));
+    return [...paragraphs, ...this.buildEmbeds(section)];
+  }
+}
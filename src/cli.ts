@@ -0,0 +1,110 @@
+import { Command, CommanderError } from 'commander';
+import { ConfigError } from './config';
+
+export const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+  config: 3,
+  notFound: 4,
+} as const;
+
+export interface GlobalOptions {
+  profile?: string;
+  verbose?: boolean;
+  json?: boolean;
+}
+
+// Missing or invalid arguments
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// A sheet, tab, session or page that the command needs does not exist
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export function getExitCode(error: unknown): number {
+  if (error instanceof CommanderError) {
+    // Help and version output exit cleanly; parse errors are usage errors
+    return error.exitCode === 0 ? EXIT_CODES.success : EXIT_CODES.usage;
+  }
+  if (error instanceof UsageError) return EXIT_CODES.usage;
+  if (error instanceof ConfigError) return EXIT_CODES.config;
+  if (error instanceof NotFoundError) return EXIT_CODES.notFound;
+  return EXIT_CODES.failure;
+}
+
+// A numeric option such as --limit or --week, at least `min`
+export function parseWholeNumberOption(name: string, value: string, min: number): number {
+  const number = Number(value);
+  if (!/^\d+$/.test(value.trim()) || number < min) {
+    throw new UsageError(`Invalid --${name} "${value}". Expected a whole number of at least ${min}`);
+  }
+  return number;
+}
+
+export function addGlobalOptions(command: Command): Command {
+  return command
+    .option('--profile <name>', 'Config profile to use (see "profiles" in config.json)')
+    .option('--verbose', 'Show stack traces for errors')
+    .option('--json', 'Print the result as JSON on stdout (progress goes to stderr)');
+}
+
+/**
+ * Prints a command's result: JSON with --json, otherwise the optional
+ * human-readable formatter.
+ */
+export function printResult<T>(command: Command, result: T, format?: (result: T) => void): void {
+  if (command.optsWithGlobals<GlobalOptions>().json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    format?.(result);
+  }
+}
+
+/**
+ * Parses argv and runs the selected command, mapping errors to exit codes.
+ * Used by the `workout` entrypoint and the standalone command scripts.
+ */
+export async function runProgram(program: Command): Promise<void> {
+  configureCommand(program);
+
+  program.hook('preAction', (_, actionCommand) => {
+    if (actionCommand.optsWithGlobals<GlobalOptions>().json) {
+      // Keep stdout for the JSON result; progress messages move to stderr
+      console.log = console.error;
+    }
+  });
+
+  try {
+    await program.parseAsync();
+  } catch (error) {
+    const exitCode = getExitCode(error);
+
+    if (!(error instanceof CommanderError)) {
+      // Read argv directly: the error may come before the options were parsed
+      if (process.argv.includes('--verbose')) {
+        console.error('Error:', error);
+      } else {
+        console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    process.exit(exitCode);
+  }
+}
+
+function configureCommand(command: Command): void {
+  // Commander errors are thrown so runProgram decides the exit code
+  command.exitOverride();
+  command.showHelpAfterError('(add --help for usage)');
+  command.commands.forEach(configureCommand);
+}
@@ -0,0 +1,558 @@
+import fs from 'fs/promises';
+import dotenv from 'dotenv';
+import { CronSchedule } from './cron';
+import type { SheetLayout } from './session-locator';
+import type { ProgramConfig } from './program-calendar';
+import type { TemplatesConfig } from './page-templates';
+import type { NotionRequestOptions } from './notion-requests';
+import type { WriteBackConfig } from './write-back';
+
+export const DEFAULT_CONFIG_PATH = 'config.json';
+
+export interface NotionConfig {
+  token: string;
+  parentPageId: string;
+  // Databases for the notion-database output; found or created under the parent page when unset
+  sessionsDatabaseId?: string;
+  weeksDatabaseId?: string;
+  // "rich" renders exercises as to-dos inside collapsible sections
+  rendering?: 'plain' | 'rich';
+  // Block wrapping each lettered section in rich rendering (default toggle)
+  sectionBlock?: 'toggle' | 'callout';
+  // Retries and concurrency of Notion API requests
+  requests?: NotionRequestOptions;
+}
+
+export interface DefaultsConfig {
+  sheetOwner?: string;
+  sheetTitle?: string;
+  cellRange?: string;
+}
+
+export interface DataConfig {
+  currentWeekNumber?: number;
+}
+
+export interface OutputConfig {
+  directory?: string;
+  obsidianVault?: string;
+  obsidianFolder?: string;
+}
+
+export interface GoogleConfig {
+  // OAuth client downloaded from Google Cloud (defaults to credentials.json)
+  credentialsPath?: string;
+  // Service-account key; when set, commands authenticate without a browser
+  serviceAccountKeyPath?: string;
+  // Defaults to token.json in the user config directory
+  tokenPath?: string;
+  // Refuse to store the token in plaintext
+  encryptToken?: boolean;
+  tokenKeyFile?: string;
+}
+
+export interface HistoryConfig {
+  path?: string;
+}
+
+export interface SyncConfig {
+  // Defaults to sync-state.json
+  statePath?: string;
+}
+
+export const SCHEDULE_TASKS = ['create-day', 'create-week', 'post-workout'] as const;
+
+export type ScheduleTask = typeof SCHEDULE_TASKS[number];
+
+export interface ScheduleRule {
+  name: string;
+  // Five-field cron expression in local time, e.g. "0 21 * * *"
+  cron: string;
+  task: ScheduleTask;
+  // Session date relative to the run (defaults: create-day today, post-workout yesterday)
+  date?: 'yesterday' | 'today' | 'tomorrow';
+  mode?: string;
+  output?: string;
+  outputDir?: string;
+  tab?: string;
+  logTab?: string;
+  log?: boolean;
+  // post-workout write-back targets, comma-separated
+  target?: string;
+}
+
+export interface ScheduleConfig {
+  logPath?: string;
+  rules?: ScheduleRule[];
+}
+
+export interface Config {
+  notion?: NotionConfig;
+  defaults?: DefaultsConfig;
+  data?: DataConfig;
+  layout?: SheetLayout;
+  program?: ProgramConfig;
+  templates?: TemplatesConfig;
+  output?: OutputConfig;
+  history?: HistoryConfig;
+  google?: GoogleConfig;
+  schedule?: ScheduleConfig;
+  writeBack?: WriteBackConfig;
+  sync?: SyncConfig;
+}
+
+export interface LoadConfigOptions {
+  path?: string;
+  profile?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+type Schema =
+  | { type: 'string'; nonEmpty?: boolean; oneOf?: readonly string[]; regex?: boolean; cron?: boolean; isoDate?: boolean }
+  | { type: 'integer'; min?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties?: Record<string, Schema>; required?: string[]; values?: Schema };
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ABBREVIATIONS = WEEKDAY_NAMES.flatMap((day) => [day, day.slice(0, 3)]);
+
+const PAGE_TEMPLATE_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', nonEmpty: true },
+    icon: { type: 'string', nonEmpty: true },
+    iconRules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['icon'],
+        properties: {
+          deload: { type: 'boolean' },
+          weekday: { type: 'string', oneOf: WEEKDAY_ABBREVIATIONS },
+          weekNumber: { type: 'integer', min: 1 },
+          icon: { type: 'string', nonEmpty: true },
+        },
+      },
+    },
+    cover: { type: 'string', nonEmpty: true },
+  },
+};
+
+const CONFIG_PROPERTIES: Record<string, Schema> = {
+  notion: {
+    type: 'object',
+    required: ['token', 'parentPageId'],
+    properties: {
+      token: { type: 'string', nonEmpty: true },
+      parentPageId: { type: 'string', nonEmpty: true },
+      sessionsDatabaseId: { type: 'string', nonEmpty: true },
+      weeksDatabaseId: { type: 'string', nonEmpty: true },
+      rendering: { type: 'string', oneOf: ['plain', 'rich'] },
+      sectionBlock: { type: 'string', oneOf: ['toggle', 'callout'] },
+      requests: {
+        type: 'object',
+        properties: {
+          maxRetries: { type: 'integer', min: 0 },
+          concurrency: { type: 'integer', min: 1 },
+          timeoutMs: { type: 'integer', min: 1000 },
+        },
+      },
+    },
+  },
+  defaults: {
+    type: 'object',
+    properties: {
+      sheetOwner: { type: 'string', nonEmpty: true },
+      sheetTitle: { type: 'string', nonEmpty: true },
+      cellRange: { type: 'string', nonEmpty: true },
+    },
+  },
+  data: {
+    type: 'object',
+    properties: {
+      currentWeekNumber: { type: 'integer', min: 0 },
+    },
+  },
+  layout: {
+    type: 'object',
+    required: ['scanRange', 'strategy'],
+    properties: {
+      scanRange: { type: 'string', nonEmpty: true },
+      tab: { type: 'string', nonEmpty: true },
+      strategy: { type: 'string', oneOf: ['date-headers', 'week-grid'] },
+      dateFormat: { type: 'string', nonEmpty: true },
+      sessionOffset: {
+        type: 'object',
+        properties: {
+          rows: { type: 'integer' },
+          columns: { type: 'integer' },
+        },
+      },
+      programStartDate: { type: 'string', nonEmpty: true },
+      sessionDays: { type: 'array', items: { type: 'string', oneOf: WEEKDAY_ABBREVIATIONS } },
+      weekLabelPattern: { type: 'string', regex: true },
+      sessionLabelPattern: { type: 'string', regex: true },
+    },
+  },
+  program: {
+    type: 'object',
+    properties: {
+      startDate: { type: 'string', isoDate: true },
+      breaks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['start', 'end'],
+          properties: {
+            start: { type: 'string', isoDate: true },
+            end: { type: 'string', isoDate: true },
+            label: { type: 'string', nonEmpty: true },
+          },
+        },
+      },
+      deloadWeeks: { type: 'array', items: { type: 'integer', min: 1 } },
+      deloadEvery: { type: 'integer', min: 2 },
+    },
+  },
+  templates: {
+    type: 'object',
+    properties: {
+      coach: { type: 'string', nonEmpty: true },
+      locale: { type: 'string', nonEmpty: true },
+      variables: { type: 'object', values: { type: 'string' } },
+      week: PAGE_TEMPLATE_SCHEMA,
+      day: PAGE_TEMPLATE_SCHEMA,
+    },
+  },
+  output: {
+    type: 'object',
+    properties: {
+      directory: { type: 'string', nonEmpty: true },
+      obsidianVault: { type: 'string', nonEmpty: true },
+      obsidianFolder: { type: 'string', nonEmpty: true },
+    },
+  },
+  history: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', nonEmpty: true },
+    },
+  },
+  google: {
+    type: 'object',
+    properties: {
+      credentialsPath: { type: 'string', nonEmpty: true },
+      serviceAccountKeyPath: { type: 'string', nonEmpty: true },
+      tokenPath: { type: 'string', nonEmpty: true },
+      encryptToken: { type: 'boolean' },
+      tokenKeyFile: { type: 'string', nonEmpty: true },
+    },
+  },
+  schedule: {
+    type: 'object',
+    properties: {
+      logPath: { type: 'string', nonEmpty: true },
+      rules: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'cron', 'task'],
+          properties: {
+            name: { type: 'string', nonEmpty: true },
+            cron: { type: 'string', cron: true },
+            task: { type: 'string', oneOf: SCHEDULE_TASKS },
+            date: { type: 'string', oneOf: ['yesterday', 'today', 'tomorrow'] },
+            mode: { type: 'string', oneOf: ['create', 'update', 'replace'] },
+            output: { type: 'string', nonEmpty: true },
+            outputDir: { type: 'string', nonEmpty: true },
+            tab: { type: 'string', nonEmpty: true },
+            logTab: { type: 'string', nonEmpty: true },
+            log: { type: 'boolean' },
+            target: { type: 'string', nonEmpty: true },
+          },
+        },
+      },
+    },
+  },
+  writeBack: {
+    type: 'object',
+    properties: {
+      targets: { type: 'array', items: { type: 'string', oneOf: ['note', 'append-note', 'column', 'comment', 'log-row'] } },
+      notesColumnOffset: { type: 'integer', min: 1 },
+      notesTab: { type: 'string', nonEmpty: true },
+      statePath: { type: 'string', nonEmpty: true },
+      sections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', nonEmpty: true },
+            pattern: { type: 'string', regex: true },
+          },
+        },
+      },
+    },
+  },
+  sync: {
+    type: 'object',
+    properties: {
+      statePath: { type: 'string', nonEmpty: true },
+    },
+  },
+};
+
+const CONFIG_FILE_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    ...CONFIG_PROPERTIES,
+    profiles: {
+      type: 'object',
+      values: { type: 'object', properties: CONFIG_PROPERTIES },
+    },
+  },
+};
+
+// Environment variables take precedence over config.json and the selected profile
+const ENV_OVERRIDES: Array<{ variable: string; path: [keyof Config, string] }> = [
+  { variable: 'NOTION_TOKEN', path: ['notion', 'token'] },
+  { variable: 'NOTION_PARENT_PAGE_ID', path: ['notion', 'parentPageId'] },
+  { variable: 'SHEET_OWNER', path: ['defaults', 'sheetOwner'] },
+  { variable: 'SHEET_TITLE', path: ['defaults', 'sheetTitle'] },
+  { variable: 'CELL_RANGE', path: ['defaults', 'cellRange'] },
+  { variable: 'GOOGLE_APPLICATION_CREDENTIALS', path: ['google', 'serviceAccountKeyPath'] },
+  { variable: 'WORKOUT_TOKEN_PATH', path: ['google', 'tokenPath'] },
+];
+
+/**
+ * Loads config.json (or WORKOUT_CONFIG), merges the selected profile
+ * (`--profile` or WORKOUT_PROFILE) over the top-level settings, applies
+ * environment overrides from the process and `.env`, and validates the result.
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<Config> {
+  dotenv.config({ quiet: true });
+
+  const configPath = resolveConfigPath(options);
+  const profile = resolveProfile(options);
+  const file = await readConfigFile(configPath);
+
+  // Required settings may come from a profile or the environment, so they are
+  // only enforced once everything is merged
+  const fileErrors: string[] = [];
+  validate(file, CONFIG_FILE_SCHEMA, '', fileErrors, true);
+  if (fileErrors.length > 0) {
+    throw new ConfigError(`Invalid ${configPath}:\n${fileErrors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+
+  const { profiles, ...base } = file;
+  let config: Config = base;
+
+  if (profile) {
+    const profileConfig = profiles?.[profile];
+    if (!profileConfig) {
+      const available = Object.keys(profiles ?? {});
+      throw new ConfigError(
+        `Profile "${profile}" not found in ${configPath}`
+        + (available.length > 0 ? `. Available profiles: ${available.join(', ')}` : '')
+      );
+    }
+    config = deepMerge(base, profileConfig);
+  }
+
+  config = applyEnvOverrides(config);
+
+  const errors: string[] = [];
+  validate(config, { type: 'object', properties: CONFIG_PROPERTIES }, '', errors);
+  if (errors.length > 0) {
+    throw new ConfigError(`Invalid configuration${profile ? ` for profile "${profile}"` : ''}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+  }
+
+  return config;
+}
+
+export function requireNotionConfig(config: Config): NotionConfig {
+  if (!config.notion) {
+    throw new ConfigError('Missing "notion" section. Set notion.token and notion.parentPageId in config.json or NOTION_TOKEN and NOTION_PARENT_PAGE_ID');
+  }
+  return config.notion;
+}
+
+/**
+ * Persists changes to the `data` section, inside the selected profile when
+ * one is active so each profile keeps its own counters.
+ */
+export async function updateConfigData(changes: Partial<DataConfig>, options: LoadConfigOptions = {}): Promise<void> {
+  const configPath = resolveConfigPath(options);
+  const profile = resolveProfile(options);
+  const file = await readConfigFile(configPath);
+
+  if (profile) {
+    const profileConfig = file.profiles?.[profile];
+    if (!profileConfig) {
+      throw new ConfigError(`Profile "${profile}" not found in ${configPath}`);
+    }
+    profileConfig.data = { ...profileConfig.data, ...changes };
+  } else {
+    file.data = { ...file.data, ...changes };
+  }
+
+  await fs.writeFile(configPath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+}
+
+export function describeConfigSource(options: LoadConfigOptions = {}): string {
+  const profile = resolveProfile(options);
+  return profile ? `${resolveConfigPath(options)} (profile "${profile}")` : resolveConfigPath(options);
+}
+
+function resolveConfigPath(options: LoadConfigOptions): string {
+  return options.path || process.env.WORKOUT_CONFIG || DEFAULT_CONFIG_PATH;
+}
+
+function resolveProfile(options: LoadConfigOptions): string | undefined {
+  return options.profile || process.env.WORKOUT_PROFILE || undefined;
+}
+
+async function readConfigFile(configPath: string): Promise<Config & { profiles?: Record<string, Config> }> {
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      // Everything can come from the environment instead
+      return {};
+    }
+    throw new ConfigError(`Error reading ${configPath}: ${error}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`${configPath} is not valid JSON: ${error}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError(`${configPath} must contain a JSON object`);
+  }
+  return parsed as Config & { profiles?: Record<string, Config> };
+}
+
+function applyEnvOverrides(config: Config): Config {
+  const result: any = { ...config };
+
+  for (const { variable, path: [section, key] } of ENV_OVERRIDES) {
+    const value = process.env[variable];
+    if (value) {
+      result[section] = { ...result[section], [key]: value };
+    }
+  }
+
+  return result;
+}
+
+function deepMerge<T>(base: T, override: any): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const result: any = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = deepMerge((base as any)[key], value);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return 'an array';
+  if (value === null) return 'null';
+  return typeof value === 'string' ? `"${value}"` : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function validate(value: unknown, schema: Schema, path: string, errors: string[], partial: boolean = false): void {
+  const label = path || 'config';
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${label} must be a string, got ${describeValue(value)}`);
+      } else if (schema.nonEmpty && !value.trim()) {
+        errors.push(`${label} must not be empty`);
+      } else if (schema.oneOf && !schema.oneOf.includes(value)) {
+        errors.push(`${label} must be one of ${schema.oneOf.join(', ')}, got "${value}"`);
+      } else if (schema.regex) {
+        try {
+          new RegExp(value);
+        } catch (error) {
+          errors.push(`${label} is not a valid regular expression: ${error}`);
+        }
+      } else if (schema.cron) {
+        try {
+          new CronSchedule(value);
+        } catch (error) {
+          errors.push(`${label}: ${(error as Error).message}`);
+        }
+      } else if (schema.isoDate && !ISO_DATE_PATTERN.test(value)) {
+        errors.push(`${label} must be a date in YYYY-MM-DD format, got "${value}"`);
+      }
+      break;
+
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        errors.push(`${label} must be an integer, got ${describeValue(value)}`);
+      } else if (schema.min !== undefined && value < schema.min) {
+        errors.push(`${label} must be at least ${schema.min}, got ${value}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${label} must be true or false, got ${describeValue(value)}`);
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${label} must be an array, got ${describeValue(value)}`);
+        break;
+      }
+      value.forEach((item, index) => validate(item, schema.items, `${label}[${index}]`, errors, partial));
+      break;
+
+    case 'object': {
+      if (!isPlainObject(value)) {
+        errors.push(`${label} must be an object, got ${describeValue(value)}`);
+        break;
+      }
+
+      for (const key of partial ? [] : schema.required ?? []) {
+        if (value[key] === undefined) {
+          errors.push(`${path ? `${path}.` : ''}${key} is required`);
+        }
+      }
+
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${key}` : key;
+        const childSchema = schema.properties?.[key] ?? schema.values;
+        if (!childSchema) {
+          const known = Object.keys(schema.properties ?? {});
+          errors.push(`Unknown setting "${childPath}"${known.length > 0 ? ` (expected one of: ${known.join(', ')})` : ''}`);
+          continue;
+        }
+        validate(child, childSchema, childPath, errors, partial);
+      }
+      break;
+    }
+  }
+}
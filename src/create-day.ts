@@ -1,115 +1,150 @@
 import { Command } from 'commander';
-import { GoogleSheetsAuth } from './auth';
-import { GoogleSheetsClient } from './sheets';
-import { NotionClient } from './notion';
+import { qualifyRange } from './sheets';
+import { PAGE_WRITE_MODES, parsePageWriteMode } from './notion';
 import { WorkoutParser } from './parser';
-import fs from 'fs/promises';
+import { OUTPUT_SINK_NAMES, parseOutputSinkNames, type PublishRequest, type PublishResult } from './sinks';
+import { parseDateArgument } from './dates';
+import { loadConfig } from './config';
+import { PageTemplates } from './page-templates';
+import { ProgramCalendar } from './program-calendar';
+import { NotFoundError, UsageError, addGlobalOptions, printResult, runProgram } from './cli';
+import {
+  formatMissingArguments,
+  openSheet,
+  publishToOutputs,
+  recordHistory,
+  requireSheetReference,
+  resolveSessionCell,
+  resolveTab,
+  writeDryRun,
+} from './pipeline';
 
-interface Config {
-  notion: {
-    token: string;
-    parentPageId: string;
-  };
-  defaults?: {
-    sheetOwner?: string;
-    sheetTitle?: string;
-  };
+const USAGE = [
+  '--sheet-owner <email>     Google Sheets owner email',
+  '--sheet-title <title>     Google Sheets document title',
+  '--session-cell <cell>     Single cell reference (e.g., B2)',
+  '  or --date <date>        Date to locate via the "layout" in config.json',
+];
+
+export interface CreateDayOptions {
+  sheetOwner?: string;
+  sheetTitle?: string;
+  sessionCell?: string;
+  date?: string;
+  tab?: string;
+  dryRun?: boolean;
+  mode?: string;
+  output?: string;
+  outputDir?: string;
+  profile?: string;
 }
 
-async function loadConfig(): Promise<Config> {
-  const configContent = await fs.readFile('config.json', 'utf8');
-  return JSON.parse(configContent);
+export interface CreateDayResult {
+  pageTitle: string;
+  sessionCell: string;
+  // Unset for dry runs
+  historyEntryId?: string;
+  notionPageId?: string;
+  outputs: PublishResult[];
 }
 
-function formatDateM_D_YYYY(date: Date): string {
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  const year = date.getFullYear();
-  return `${month}/${day}/${year}`;
+/**
+ * Reads one session cell (given, or located from the date) and publishes it
+ * as a day page. Shared by the `day` command and the scheduler.
+ */
+export async function createDay(options: CreateDayOptions): Promise<CreateDayResult> {
+  const config = await loadConfig({ profile: options.profile });
+  const mode = parsePageWriteMode(options.mode);
+  const outputs = parseOutputSinkNames(options.output);
+
+  const { sheetOwner, sheetTitle } = requireSheetReference(options, config, USAGE);
+  if (!options.sessionCell && !options.date) {
+    throw new UsageError(formatMissingArguments(USAGE));
+  }
+  const sessionDate = options.date ? parseDateArgument(options.date) : new Date();
+
+  const sheet = await openSheet(config, sheetOwner, sheetTitle);
+  const tab = await resolveTab(sheet, options.tab ?? (options.sessionCell ? undefined : config.layout?.tab), sessionDate);
+  const sessionCell = await resolveSessionCell(sheet, config, options.sessionCell, sessionDate, tab);
+
+  console.log(`Extracting data from cell: ${sessionCell}`);
+  const data = await sheet.sheetsClient.getCellRange(sheet.sheetInfo.id, sessionCell, tab);
+
+  const cellContent = data?.[0]?.[0];
+  if (!cellContent) {
+    throw new NotFoundError(`No data found in cell ${sessionCell}`);
+  }
+
+  console.log('Parsing workout data...');
+  const session = WorkoutParser.parseSingleCell(cellContent);
+
+  console.log(`Found workout session with ${session.sections.length} sections`);
+
+  const page = PageTemplates.fromConfig(config).render('day', {
+    date: sessionDate,
+    sheetTitle,
+    sheetOwner,
+  });
+  const pageTitle = page.title;
+
+  if (options.dryRun) {
+    await writeDryRun({ rawContent: cellContent, parsed: session });
+    return { pageTitle, sessionCell, outputs: [] };
+  }
+
+  const request: PublishRequest = {
+    kind: 'day',
+    title: pageTitle,
+    sessions: [session],
+    date: sessionDate,
+    weekNumber: ProgramCalendar.fromConfig(config.program)?.weekAt(sessionDate)?.weekNumber,
+    icon: page.icon,
+    cover: page.cover,
+    mode,
+  };
+  const published = await publishToOutputs(config, request, { outputs, outputDir: options.outputDir });
+
+  const historyEntry = await recordHistory(config, {
+    kind: 'day',
+    spreadsheetId: sheet.sheetInfo.id,
+    sheetTitle: sheet.sheetInfo.name,
+    cellReference: qualifyRange(sessionCell, tab),
+    pageTitle,
+    notionPageId: published.notionPageId,
+    sessions: [session],
+  });
+
+  return {
+    pageTitle,
+    sessionCell,
+    historyEntryId: historyEntry.id,
+    notionPageId: published.notionPageId,
+    outputs: published.results,
+  };
 }
 
-async function main() {
-  const program = new Command();
-  
-  program
-    .name('create-day')
+export function createDayCommand(name: string = 'day'): Command {
+  const command = new Command(name);
+
+  command
     .description('Create a daily workout entry in Notion from a single Google Sheets cell')
     .option('--sheet-owner <email>', 'Google Sheets owner email')
     .option('--sheet-title <title>', 'Google Sheets document title')
     .option('--session-cell <cell>', 'Single cell reference (e.g., B2)')
+    .option('--date <date>', 'Find the session cell for a date (today, yesterday, tomorrow, YYYY-MM-DD, M/D/YYYY)')
+    .option('--tab <tab>', 'Tab to read from (name, or "date:<format>" for the latest dated tab)')
     .option('--dry-run', 'Output parsed data to file instead of creating Notion page')
-    .parse();
-
-  const options = program.opts();
-  
-  try {
-    const config = await loadConfig();
-    
-    const sheetOwner = options.sheetOwner || config.defaults?.sheetOwner;
-    const sheetTitle = options.sheetTitle || config.defaults?.sheetTitle;
-    const sessionCell = options.sessionCell;
-    
-    if (!sheetOwner || !sheetTitle || !sessionCell) {
-      console.error('Missing required arguments. Please provide:\n');
-      console.error('  --sheet-owner <email>     Google Sheets owner email');
-      console.error('  --sheet-title <title>     Google Sheets document title');
-      console.error('  --session-cell <cell>     Single cell reference (e.g., B2)\n');
-      console.error('Note: sheet-owner and sheet-title can be set as defaults in config.json');
-      process.exit(1);
-    }
-
-    const auth = new GoogleSheetsAuth();
-    console.log('Authenticating with Google Sheets API...');
-    const oAuth2Client = await auth.authenticate();
-    
-    const sheetsClient = new GoogleSheetsClient(oAuth2Client);
-    
-    console.log(`Searching for sheet "${sheetTitle}" owned by ${sheetOwner}...`);
-    const sheetInfo = await sheetsClient.findSheetByOwnerAndTitle(sheetOwner, sheetTitle);
-    
-    if (!sheetInfo) {
-      console.log('Sheet not found');
-      process.exit(1);
-    }
-    
-    console.log(`Found sheet: ${sheetInfo.name} (${sheetInfo.id})`);
-    console.log(`URL: ${sheetInfo.url}`);
-    
-    console.log(`Extracting data from cell: ${sessionCell}`);
-    const data = await sheetsClient.getCellRange(sheetInfo.id, sessionCell);
-    
-    if (!data || data.length === 0 || !data[0] || !data[0][0]) {
-      console.log('No data found in the specified cell');
-      process.exit(1);
-    }
-    
-    const cellContent = data[0][0];
-    console.log('Parsing workout data...');
-    const session = WorkoutParser.parseSingleCell(cellContent);
-    
-    console.log(`Found workout session with ${session.sections.length} sections`);
-
-    if (options.dryRun) {
-      const output = JSON.stringify({ rawContent: cellContent, parsed: session }, null, 2);
-      await fs.writeFile('dry-run-output.json', output, 'utf8');
-      console.log('Dry run complete. Output written to dry-run-output.json');
-      process.exit(0);
-    }
-
-    console.log('Connecting to Notion...');
-    const notionClient = await NotionClient.fromConfigFile();
-    
-    const today = new Date();
-    const pageTitle = formatDateM_D_YYYY(today);
-    console.log(`Creating Notion page: ${pageTitle}`);
-    
-    const pageId = await notionClient.createDayWorkoutPage(pageTitle, session);
-    console.log(`✅ Successfully created Notion page: ${pageId}`);
-    
-  } catch (error) {
-    console.error('Error:', error);
-    process.exit(1);
-  }
+    .option('--mode <mode>', `How to write the Notion page (${PAGE_WRITE_MODES.join('|')})`, 'create')
+    .option('--output <outputs>', `Comma-separated outputs (${OUTPUT_SINK_NAMES.join(', ')})`, 'notion')
+    .option('--output-dir <dir>', 'Directory for markdown, html and ics outputs')
+    .action(async (_, actionCommand: Command) => {
+      const result = await createDay(actionCommand.optsWithGlobals());
+      printResult(actionCommand, result);
+    });
+
+  return command;
 }
 
-main();
\ No newline at end of file
+if (import.meta.main) {
+  runProgram(addGlobalOptions(createDayCommand('create-day')));
+}
@@ -1,140 +1,223 @@
 import { Command } from 'commander';
-import { GoogleSheetsAuth } from './auth';
-import { GoogleSheetsClient } from './sheets';
-import { NotionClient } from './notion';
+import { qualifyRange } from './sheets';
+import { PAGE_WRITE_MODES, parsePageWriteMode } from './notion';
 import { WorkoutParser } from './parser';
-import fs from 'fs/promises';
-
-interface Config {
-  notion: {
-    token: string;
-    parentPageId: string;
-  };
-  defaults?: {
-    sheetOwner?: string;
-    sheetTitle?: string;
-    cellRange?: string;
-  };
-  data?: {
-    currentWeekNumber?: number;
-  };
+import { OUTPUT_SINK_NAMES, parseOutputSinkNames, type PublishRequest, type PublishResult } from './sinks';
+import { addDays, formatDate, nextWeekday } from './dates';
+import { ConfigError, describeConfigSource, loadConfig, updateConfigData, type Config, type LoadConfigOptions } from './config';
+import { ProgramCalendar } from './program-calendar';
+import { PageTemplates } from './page-templates';
+import { UsageError, addGlobalOptions, printResult, runProgram } from './cli';
+import {
+  formatMissingArguments,
+  openSheet,
+  publishToOutputs,
+  recordHistory,
+  requireSheetReference,
+  resolveTab,
+  writeDryRun,
+} from './pipeline';
+
+const USAGE = [
+  '--sheet-owner <email>     Google Sheets owner email',
+  '--sheet-title <title>     Google Sheets document title',
+  '--cell-range <range>      Cell range to extract (e.g., B2:E5)',
+];
+
+export interface CreateWeekOptions {
+  sheetOwner?: string;
+  sheetTitle?: string;
+  cellRange?: string;
+  tab?: string;
+  // Overrides the week number derived from the program calendar or counter
+  week?: string | number;
+  dryRun?: boolean;
+  mode?: string;
+  output?: string;
+  outputDir?: string;
+  profile?: string;
 }
 
-const CONFIG_FILE_PATH = 'config.json';
-
-async function loadConfig(): Promise<Config> {
-  const configContent = await fs.readFile(CONFIG_FILE_PATH, 'utf8');
-  return JSON.parse(configContent);
+export interface CreateWeekResult {
+  weekNumber: number;
+  deload: boolean;
+  pageTitle: string;
+  // Unset for dry runs
+  historyEntryId?: string;
+  notionPageId?: string;
+  outputs: PublishResult[];
 }
 
-async function saveConfig(config: Config): Promise<void> {
-  const configJson = JSON.stringify(config, null, 2);
-  await fs.writeFile(CONFIG_FILE_PATH, `${configJson}\n`, 'utf8');
-}
+/**
+ * Reads the week's cell range and publishes it as a week page. Shared by the
+ * `week` command and the scheduler.
+ */
+export async function createWeek(options: CreateWeekOptions): Promise<CreateWeekResult> {
+  const configOptions = { profile: options.profile };
+  const config = await loadConfig(configOptions);
+  const mode = parsePageWriteMode(options.mode);
+  const outputs = parseOutputSinkNames(options.output);
+
+  const { sheetOwner, sheetTitle } = requireSheetReference(options, config, USAGE);
+  const cellRange = options.cellRange || config.defaults?.cellRange;
+  if (!cellRange) {
+    throw new UsageError(formatMissingArguments(USAGE, 'Or set defaults in config.json'));
+  }
 
-async function main() {
-  const program = new Command();
+  const week = resolveWeek(config, configOptions, mode, options.week);
 
-  program
-    .name('create-week')
-    .description('Create a weekly workout plan in Notion from Google Sheets')
-    .option('--sheet-owner <email>', 'Google Sheets owner email')
-    .option('--sheet-title <title>', 'Google Sheets document title')
-    .option('--cell-range <range>', 'Cell range to extract (e.g., B2:E5)')
-    .option('--dry-run', 'Output parsed data to file instead of creating Notion page')
-    .parse();
+  const sheet = await openSheet(config, sheetOwner, sheetTitle);
+  const tab = await resolveTab(sheet, options.tab);
 
-  const options = program.opts();
+  console.log(`Extracting data from range: ${cellRange}`);
+  const data = await sheet.sheetsClient.getCellRange(sheet.sheetInfo.id, cellRange, tab);
 
-  try {
-    const config = await loadConfig();
+  console.log('Parsing workout data...');
+  const sessions = WorkoutParser.parseWorkoutData(data);
 
-    const sheetOwner = options.sheetOwner || config.defaults?.sheetOwner;
-    const sheetTitle = options.sheetTitle || config.defaults?.sheetTitle;
-    const cellRange = options.cellRange || config.defaults?.cellRange;
-    const currentWeekNumber = config.data?.currentWeekNumber;
+  console.log(`Found ${sessions.length} workout sessions:`);
+  sessions.forEach((session) => {
+    console.log(`Session ${session.sessionNumber}: ${session.sections.length} sections`);
+  });
 
-    if (!sheetOwner || !sheetTitle || !cellRange) {
-      console.error('Missing required arguments. Please provide:\n');
-      console.error('  --sheet-owner <email>     Google Sheets owner email');
-      console.error('  --sheet-title <title>     Google Sheets document title');
-      console.error('  --cell-range <range>      Cell range to extract (e.g., B2:E5)\n');
-      console.error('Or set defaults in config.json');
-      process.exit(1);
-    }
+  const { weekNumber, deload } = week;
+  const page = PageTemplates.fromConfig(config).render('week', {
+    date: week.startDate,
+    weekNumber,
+    deload,
+    sheetTitle,
+    sheetOwner,
+  });
+  const pageTitle = page.title;
+  console.log(`Week ${weekNumber} (${week.source})${deload ? ', deload' : ''}`);
 
-    if (typeof currentWeekNumber !== 'number') {
-      console.error('Missing "data.currentWeekNumber" in config.json');
-      process.exit(1);
-    }
+  if (options.dryRun) {
+    await writeDryRun(sessions);
+    return { weekNumber, deload, pageTitle, outputs: [] };
+  }
 
-    const auth = new GoogleSheetsAuth();
-    console.log('Authenticating with Google Sheets API...');
-    const oAuth2Client = await auth.authenticate();
+  const request: PublishRequest = {
+    kind: 'week',
+    title: pageTitle,
+    sessions,
+    date: week.startDate,
+    weekNumber,
+    icon: page.icon,
+    cover: page.cover,
+    mode,
+  };
+  const published = await publishToOutputs(config, request, { outputs, outputDir: options.outputDir });
+
+  const historyEntry = await recordHistory(config, {
+    kind: 'week',
+    spreadsheetId: sheet.sheetInfo.id,
+    sheetTitle: sheet.sheetInfo.name,
+    cellReference: qualifyRange(cellRange, tab),
+    weekNumber,
+    pageTitle,
+    notionPageId: published.notionPageId,
+    sessions,
+  });
+
+  // The counter only moves once the page exists, so a failed publish can be
+  // retried without skipping a week
+  if (week.source !== 'program' && mode === 'create' && weekNumber > (config.data?.currentWeekNumber ?? 0)) {
+    await updateConfigData({ currentWeekNumber: weekNumber }, configOptions);
+    console.log(`Updated ${describeConfigSource(configOptions)} currentWeekNumber to ${weekNumber}`);
+  }
 
-    const sheetsClient = new GoogleSheetsClient(oAuth2Client);
+  return {
+    weekNumber,
+    deload,
+    pageTitle,
+    historyEntryId: historyEntry.id,
+    notionPageId: published.notionPageId,
+    outputs: published.results,
+  };
+}
 
-    console.log(`Searching for sheet "${sheetTitle}" owned by ${sheetOwner}...`);
-    const sheetInfo = await sheetsClient.findSheetByOwnerAndTitle(sheetOwner, sheetTitle);
+interface ResolvedWeek {
+  weekNumber: number;
+  deload: boolean;
+  startDate: Date;
+  source: 'option' | 'program' | 'counter';
+}
 
-    if (!sheetInfo) {
-      console.log('Sheet not found');
-      process.exit(1);
+/**
+ * Picks the week to publish: `--week`, else the program week starting on or
+ * containing next Monday, else the `data.currentWeekNumber` counter. Creating
+ * takes the next week; updating or replacing takes the current one.
+ */
+function resolveWeek(config: Config, configOptions: LoadConfigOptions, mode: string, week?: string | number): ResolvedWeek {
+  const calendar = ProgramCalendar.fromConfig(config.program);
+  const nextMonday = nextWeekday(new Date(), 1);
+
+  if (week !== undefined) {
+    const weekNumber = typeof week === 'number' ? week : Number(week);
+    if (!Number.isInteger(weekNumber) || weekNumber < 1) {
+      throw new UsageError(`Invalid --week "${week}". Expected a positive whole number`);
     }
 
-    console.log(`Found sheet: ${sheetInfo.name} (${sheetInfo.id})`);
-    console.log(`URL: ${sheetInfo.url}`);
-
-    console.log(`Extracting data from range: ${cellRange}`);
-    const data = await sheetsClient.getCellRange(sheetInfo.id, cellRange);
-
-    console.log('Parsing workout data...');
-    const sessions = WorkoutParser.parseWorkoutData(data);
-
-    console.log(`Found ${sessions.length} workout sessions:`);
-    sessions.forEach((session) => {
-      console.log(`Session ${session.sessionNumber}: ${session.sections.length} sections`);
-    });
+    return {
+      weekNumber,
+      deload: calendar?.isDeload(weekNumber) ?? false,
+      startDate: calendar?.startOf(weekNumber) ?? nextMonday,
+      source: 'option',
+    };
+  }
 
-    if (options.dryRun) {
-      const output = JSON.stringify(sessions, null, 2);
-      await fs.writeFile('dry-run-output.json', output, 'utf8');
-      console.log('Dry run complete. Output written to dry-run-output.json');
-      process.exit(0);
+  if (calendar) {
+    // Creating a page starts next week; updating or replacing rewrites the
+    // page of the week under way (the first Monday of the last seven days)
+    const monday = mode === 'create' ? nextMonday : nextWeekday(addDays(new Date(), -6), 1);
+    const programWeek = calendar.weekAt(monday);
+    if (!programWeek) {
+      throw new UsageError(`The program starts on ${config.program!.startDate}. Pass --week to create a page before then`);
+    }
+    if (programWeek.weekNumber === undefined) {
+      throw new UsageError(`The week of ${formatDate(programWeek.startDate, 'YYYY-MM-DD')} is a program break (${programWeek.breakLabel}). Pass --week to create a page anyway`);
     }
 
-    console.log('Connecting to Notion...');
-    const notionClient = await NotionClient.fromConfigFile();
-
-    const nextWeekNumber = currentWeekNumber + 1;
-
-    const updatedConfig: Config = {
-      ...config,
-      data: {
-        ...config.data,
-        currentWeekNumber: nextWeekNumber,
-      },
-    };
-
-    await saveConfig(updatedConfig);
-    console.log(`Updated config.json currentWeekNumber to ${nextWeekNumber}`);
+    return { weekNumber: programWeek.weekNumber, deload: programWeek.deload, startDate: programWeek.startDate, source: 'program' };
+  }
 
-    const pageTitle = `Week ${nextWeekNumber} with Kyle Habdo`;
+  const currentWeekNumber = config.data?.currentWeekNumber;
+  if (typeof currentWeekNumber !== 'number') {
+    throw new ConfigError(`Set "program.startDate" or "data.currentWeekNumber" in ${describeConfigSource(configOptions)}, or pass --week`);
+  }
 
-    // Get ones digit and map to emoji
-    const onesDigit = nextWeekNumber % 10;
-    const digitEmojis = ['🔟', '1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣'];
-    const pageIcon = digitEmojis[onesDigit];
+  // Creating a page starts the next week; updating or replacing rewrites the
+  // current week's page
+  return {
+    weekNumber: mode === 'create' ? currentWeekNumber + 1 : currentWeekNumber,
+    deload: false,
+    startDate: nextMonday,
+    source: 'counter',
+  };
+}
 
-    console.log(`Creating Notion page: ${pageTitle} with icon ${pageIcon}`);
+export function createWeekCommand(name: string = 'week'): Command {
+  const command = new Command(name);
 
-    const pageId = await notionClient.createWorkoutPage(pageTitle, sessions, pageIcon);
-    console.log(`✅ Successfully created Notion page: ${pageId}`);
+  command
+    .description('Create a weekly workout plan in Notion from Google Sheets')
+    .option('--sheet-owner <email>', 'Google Sheets owner email')
+    .option('--sheet-title <title>', 'Google Sheets document title')
+    .option('--cell-range <range>', 'Cell range to extract (e.g., B2:E5)')
+    .option('--tab <tab>', 'Tab to read from (name, or "date:<format>" for the latest dated tab)')
+    .option('--week <number>', 'Week number to publish instead of the one derived from the program start date')
+    .option('--dry-run', 'Output parsed data to file instead of creating Notion page')
+    .option('--mode <mode>', `How to write the Notion page (${PAGE_WRITE_MODES.join('|')})`, 'create')
+    .option('--output <outputs>', `Comma-separated outputs (${OUTPUT_SINK_NAMES.join(', ')})`, 'notion')
+    .option('--output-dir <dir>', 'Directory for markdown, html and ics outputs')
+    .action(async (_, actionCommand: Command) => {
+      const result = await createWeek(actionCommand.optsWithGlobals());
+      printResult(actionCommand, result);
+    });
 
-  } catch (error) {
-    console.error('Error:', error);
-    process.exit(1);
-  }
+  return command;
 }
 
-main();
+if (import.meta.main) {
+  runProgram(addGlobalOptions(createWeekCommand('create-week')));
+}
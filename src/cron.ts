@@ -0,0 +1,139 @@
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  // 7 is accepted as Sunday and folded into 0
+  { min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+// Far enough to find the next run of any valid expression, including Feb 29
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+/**
+ * A standard five-field cron expression ("minute hour day-of-month month
+ * day-of-week") evaluated in local time. Supports `*`, lists, ranges, steps,
+ * month and weekday names, and the @hourly/@daily/@weekly/@monthly macros.
+ */
+export class CronSchedule {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  constructor(expression: string) {
+    this.expression = expression;
+    const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+    const parts = normalized.split(/\s+/);
+
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]!, expression));
+    this.minutes = minutes!;
+    this.hours = hours!;
+    this.daysOfMonth = daysOfMonth!;
+    this.months = months!;
+    this.daysOfWeek = new Set(Array.from(daysOfWeek!, (day) => day % 7));
+    this.dayOfMonthRestricted = parts[2] !== '*';
+    this.dayOfWeekRestricted = parts[4] !== '*';
+  }
+
+  matches(date: Date): boolean {
+    if (!this.minutes.has(date.getMinutes()) || !this.hours.has(date.getHours()) || !this.months.has(date.getMonth() + 1)) {
+      return false;
+    }
+
+    const dayOfMonthMatches = this.daysOfMonth.has(date.getDate());
+    const dayOfWeekMatches = this.daysOfWeek.has(date.getDay());
+
+    // As in cron, restricting both day fields matches either one
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonthMatches || dayOfWeekMatches;
+    }
+    return dayOfMonthMatches && dayOfWeekMatches;
+  }
+
+  /**
+   * The first matching minute strictly after `after`, or null if none is found.
+   */
+  next(after: Date): Date | null {
+    let candidate = new Date(Math.floor(after.getTime() / MS_PER_MINUTE) * MS_PER_MINUTE + MS_PER_MINUTE);
+
+    for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+      if (this.matches(candidate)) {
+        return candidate;
+      }
+      candidate = new Date(candidate.getTime() + MS_PER_MINUTE);
+    }
+
+    return null;
+  }
+}
+
+function parseField(part: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of part.split(',')) {
+    const [rangePart, stepPart] = item.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart);
+    if (!rangePart || isNaN(step) || step < 1 || (stepPart !== undefined && !/^\d+$/.test(stepPart))) {
+      throw new Error(`Invalid cron expression "${expression}": bad step in "${item}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from ?? '', field, expression);
+      end = parseValue(to ?? '', field, expression);
+    } else {
+      start = parseValue(rangePart, field, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid cron expression "${expression}": range "${rangePart}" is reversed`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, field: CronField, expression: string): number {
+  const nameIndex = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex !== -1 ? nameIndex + field.min : /^\d+$/.test(text) ? parseInt(text) : NaN;
+
+  if (isNaN(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid cron expression "${expression}": "${text}" is out of range ${field.min}-${field.max}`);
+  }
+  return value;
+}
@@ -0,0 +1,166 @@
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Longest tokens first so "MMMM" is not read as two "MM"s
+const FORMAT_TOKEN_PATTERN = /YYYY|YY|MMMM|MMM|MM|M|DD|D/g;
+// Weekday names can be written but not parsed
+const OUTPUT_TOKEN_PATTERN = /YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D/g;
+
+/**
+ * Formats `date` with the tokens YYYY, YY, MMMM, MMM, MM, M, dddd, ddd, DD
+ * and D. Month and weekday names are English unless `locale` is given.
+ */
+export function formatDate(date: Date, format: string, locale?: string): string {
+  return format.replace(OUTPUT_TOKEN_PATTERN, (token) => {
+    switch (token) {
+      case 'YYYY':
+        return `${date.getFullYear()}`;
+      case 'YY':
+        return `${date.getFullYear()}`.slice(-2);
+      case 'MMMM':
+        return locale ? date.toLocaleDateString(locale, { month: 'long' }) : MONTH_NAMES[date.getMonth()]!;
+      case 'MMM':
+        return locale ? date.toLocaleDateString(locale, { month: 'short' }) : MONTH_NAMES[date.getMonth()]!.slice(0, 3);
+      case 'MM':
+        return `${date.getMonth() + 1}`.padStart(2, '0');
+      case 'M':
+        return `${date.getMonth() + 1}`;
+      case 'dddd':
+        return date.toLocaleDateString(locale ?? 'en-US', { weekday: 'long' });
+      case 'ddd':
+        return date.toLocaleDateString(locale ?? 'en-US', { weekday: 'short' });
+      case 'DD':
+        return `${date.getDate()}`.padStart(2, '0');
+      default:
+        return `${date.getDate()}`;
+    }
+  });
+}
+
+/**
+ * Finds the first date written in `text` using `format` (e.g. "M/D" matches
+ * "Block 3 - 10/6"). When the format has no year, `referenceYear` is used.
+ */
+export function findDateInText(text: string, format: string, referenceYear: number): Date | null {
+  const groups: string[] = [];
+  let pattern = '';
+  let lastIndex = 0;
+
+  for (const match of format.matchAll(FORMAT_TOKEN_PATTERN)) {
+    pattern += escapeRegExp(format.slice(lastIndex, match.index));
+    groups.push(match[0]);
+    switch (match[0]) {
+      case 'YYYY':
+        pattern += '(\\d{4})';
+        break;
+      case 'MMMM':
+      case 'MMM':
+        pattern += '([A-Za-z]{3,9})';
+        break;
+      default:
+        pattern += match[0].length === 2 ? '(\\d{2})' : '(\\d{1,2})';
+        break;
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  pattern += escapeRegExp(format.slice(lastIndex));
+
+  const match = text.match(new RegExp(`(?:^|\\D)${pattern}(?!\\d)`, 'i'));
+  if (!match) {
+    return null;
+  }
+
+  let year = referenceYear;
+  let month = 0;
+  let day = 1;
+
+  groups.forEach((token, index) => {
+    const value = match[index + 1]!;
+    if (token === 'YYYY') {
+      year = parseInt(value);
+    } else if (token === 'YY') {
+      year = 2000 + parseInt(value);
+    } else if (token === 'MMMM' || token === 'MMM') {
+      month = MONTH_NAMES.findIndex((name) => name.toLowerCase().startsWith(value.slice(0, 3).toLowerCase()));
+    } else if (token.startsWith('M')) {
+      month = parseInt(value) - 1;
+    } else {
+      day = parseInt(value);
+    }
+  });
+
+  return toCalendarDate(year, month, day);
+}
+
+/**
+ * Parses a command-line date: "today", "yesterday", "tomorrow", "YYYY-MM-DD",
+ * "M/D/YYYY" or "M/D" (current year).
+ */
+export function parseDateArgument(value: string, now: Date = new Date()): Date {
+  const today = startOfDay(now);
+  const normalized = value.trim().toLowerCase();
+
+  if (normalized === 'today') {
+    return today;
+  }
+  if (normalized === 'yesterday') {
+    return addDays(today, -1);
+  }
+  if (normalized === 'tomorrow') {
+    return addDays(today, 1);
+  }
+
+  let date: Date | null | undefined;
+  const isoMatch = normalized.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const slashMatch = normalized.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (isoMatch) {
+    date = toCalendarDate(parseInt(isoMatch[1]!), parseInt(isoMatch[2]!) - 1, parseInt(isoMatch[3]!));
+  } else if (slashMatch) {
+    let year = slashMatch[3] ? parseInt(slashMatch[3]) : today.getFullYear();
+    if (year < 100) {
+      year += 2000;
+    }
+    date = toCalendarDate(year, parseInt(slashMatch[1]!) - 1, parseInt(slashMatch[2]!));
+  }
+
+  if (date === null) {
+    throw new Error(`Invalid date "${value}": there is no such day`);
+  }
+  if (date) {
+    return date;
+  }
+
+  throw new Error(`Invalid date "${value}". Use today, yesterday, tomorrow, YYYY-MM-DD, M/D/YYYY or M/D`);
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * The first date on or after `date` that falls on `weekday` (0 = Sunday).
+ */
+export function nextWeekday(date: Date, weekday: number): Date {
+  return addDays(startOfDay(date), (weekday - date.getDay() + 7) % 7);
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// The date, or null when there is no such day, which `new Date` would
+// otherwise roll over (2025-02-31 becoming March 3)
+function toCalendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,139 @@
+import { Command } from 'commander';
+import { GoogleSheetsAuth } from './auth';
+import { GoogleSheetsClient, splitSheetReference } from './sheets';
+import { NotionClient, type PageWriteResult, type WorkoutSession } from './notion';
+import { WorkoutParser } from './parser';
+import { WorkoutHistory, type HistoryEntry } from './history-store';
+import { loadConfig } from './config';
+import { countExerciseChanges, diffSessions, formatSessionDiffs, type SessionDiff } from './workout-diff';
+import { NotFoundError, UsageError, addGlobalOptions, printResult, runProgram, type GlobalOptions } from './cli';
+
+export interface DiffOptions extends GlobalOptions {
+  week?: string;
+  history?: string;
+  apply?: boolean;
+}
+
+export interface DiffResult {
+  historyEntryId: string;
+  pageTitle: string;
+  cellReference: string;
+  diffs: SessionDiff[];
+  changeCount: number;
+  // Set when --apply rewrote the Notion page
+  page?: PageWriteResult;
+}
+
+class DiffClient extends NotionClient {
+  async rewriteSessions(pageId: string, kind: HistoryEntry['kind'], sessions: WorkoutSession[]): Promise<PageWriteResult> {
+    const blocks = kind === 'week' ? this.blocks.buildWeek(sessions) : this.blocks.buildDay(sessions[0]!);
+    return this.rewritePageContent(pageId, blocks, 'update');
+  }
+}
+
+/**
+ * Re-reads the cells a page was published from and compares them with the
+ * sessions recorded in the workout history when it was published. With
+ * `apply`, the page is rewritten to match the sheet and the history entry
+ * becomes the new snapshot.
+ */
+export async function diffPublished(options: DiffOptions): Promise<DiffResult> {
+  const config = await loadConfig({ profile: options.profile });
+  const history = new WorkoutHistory(config.history?.path);
+  const entry = await findSnapshot(history, options);
+
+  console.log(`Comparing "${entry.pageTitle}" (published ${entry.updatedAt}) with ${entry.cellReference}`);
+
+  const auth = GoogleSheetsAuth.fromConfig(config);
+  console.log('Authenticating with Google Sheets API...');
+  const sheetsClient = new GoogleSheetsClient(await auth.authenticate());
+
+  const { tab, range } = splitSheetReference(entry.cellReference);
+  const data = await sheetsClient.getCellRange(entry.spreadsheetId, range, tab);
+
+  console.log('Parsing workout data...');
+  let sessions: WorkoutSession[];
+  if (entry.kind === 'week') {
+    sessions = WorkoutParser.parseWorkoutData(data);
+  } else {
+    const cellContent = data?.[0]?.[0];
+    if (!cellContent) {
+      throw new NotFoundError(`No data found in cell ${entry.cellReference}`);
+    }
+    sessions = [WorkoutParser.parseSingleCell(cellContent)];
+  }
+
+  const diffs = diffSessions(entry.sessions, sessions);
+  const changeCount = countExerciseChanges(diffs);
+  const result: DiffResult = {
+    historyEntryId: entry.id,
+    pageTitle: entry.pageTitle,
+    cellReference: entry.cellReference,
+    diffs,
+    changeCount,
+  };
+
+  console.log(`\n${formatSessionDiffs(diffs)}\n`);
+  if (changeCount === 0 || !options.apply) {
+    return result;
+  }
+
+  if (!entry.notionPageId) {
+    throw new NotFoundError(`"${entry.pageTitle}" was not published to a Notion page, so there is nothing to update`);
+  }
+
+  console.log(`Updating Notion page ${entry.notionPageId}...`);
+  const client = new DiffClient(config);
+  result.page = await client.rewriteSessions(entry.notionPageId, entry.kind, sessions);
+  console.log(client.requestSummary());
+
+  await history.update(entry.id, { sessions });
+  console.log(`✅ Notion page ${result.page.action}; history entry ${entry.id.slice(0, 8)} now holds the new sessions`);
+
+  return result;
+}
+
+async function findSnapshot(history: WorkoutHistory, options: DiffOptions): Promise<HistoryEntry> {
+  if (options.history && options.week !== undefined) {
+    throw new UsageError('Pass either --history or --week, not both');
+  }
+
+  if (options.history) {
+    const entry = await history.get(options.history);
+    if (!entry) {
+      throw new NotFoundError(`No history entry with id "${options.history}"`);
+    }
+    return entry;
+  }
+
+  const weekNumber = options.week === undefined ? undefined : Number(options.week);
+  if (weekNumber !== undefined && (!Number.isInteger(weekNumber) || weekNumber < 1)) {
+    throw new UsageError(`Invalid --week "${options.week}". Expected a positive whole number`);
+  }
+
+  const [entry] = await history.list({ kind: 'week', weekNumber, limit: 1 });
+  if (!entry) {
+    throw new NotFoundError(weekNumber === undefined ? 'No published weeks in the workout history' : `Week ${weekNumber} has not been published`);
+  }
+  return entry;
+}
+
+export function diffCommand(name: string = 'diff'): Command {
+  const command = new Command(name);
+
+  command
+    .description('Show what changed in the sheet since a week or day was published')
+    .option('--week <number>', 'Week to compare (defaults to the latest published week)')
+    .option('--history <id>', 'History entry (or id prefix) to compare, for day pages or older snapshots')
+    .option('--apply', 'Update the Notion page and history snapshot to match the sheet')
+    .action(async (_, actionCommand: Command) => {
+      const result = await diffPublished(actionCommand.optsWithGlobals());
+      printResult(actionCommand, result);
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(diffCommand()));
+}
@@ -0,0 +1,214 @@
+export type LoadUnit = 'lb' | 'kg' | '%' | 'bw';
+
+export interface RepRange {
+  min: number;
+  max: number;
+}
+
+export interface ExerciseLoad {
+  value?: number;
+  unit?: LoadUnit;
+  raw: string;
+}
+
+export interface ExercisePrescription {
+  name: string;
+  sets?: number;
+  reps?: RepRange;
+  // As many reps as possible, in place of reps
+  amrap?: boolean;
+  perSide: boolean;
+  load?: ExerciseLoad;
+  tempo?: string;
+  rpe?: number;
+  rir?: number;
+  restSeconds?: number;
+  durationSeconds?: number;
+}
+
+export interface WorkoutItem {
+  raw: string;
+  exercise: ExercisePrescription | null;
+}
+
+export class ExerciseParser {
+  private static readonly RPE_PATTERN = /@?\s*\bRPE\s*:?\s*(\d+(?:\.\d+)?)/i;
+  private static readonly RIR_PATTERN = /\bRIR\s*:?\s*(\d+)|\b(\d+)\s*RIR\b/i;
+  private static readonly TEMPO_PATTERN = /\btempo\s*:?\s*([\dxX]{4}|\d+(?:-\d+){2,3})|\b(\d{4}|\d+(?:-\d+){2,3})\s*tempo\b/i;
+  private static readonly REST_PATTERN = /\brest(?:ing)?\s*:?\s*(\d+(?::\d{2})?)\s*(s|secs?|seconds|mins?|minutes)?\b|\b(\d+(?::\d{2})?)\s*(s|secs?|seconds|mins?|minutes)?\s*rest\b/i;
+  private static readonly TIMED_SETS_PATTERN = /\b(\d+)\s*[x×]\s*(?::(\d{2})|(\d+)\s*(s|secs?|seconds|mins?|minutes))\b/i;
+  private static readonly AMRAP_PATTERN = /\b(?:(\d+)\s*(?:sets?\s*(?:of|x)|[x×])\s*)?AMRAP\b/i;
+  private static readonly SETS_OF_REPS_PATTERN = /\b(\d+)\s*sets?\s*(?:of|x)\s*(\d+)(?:\s*[-–]\s*(\d+))?/i;
+  private static readonly SETS_X_REPS_PATTERN = /\b(\d+)\s*[x×]\s*(\d+)(?:\s*[-–]\s*(\d+))?/i;
+  private static readonly REPS_PATTERN = /\b(\d+)(?:\s*[-–]\s*(\d+))?\s*reps?\b/i;
+  private static readonly SETS_PATTERN = /\b(\d+)\s*(?:sets|rounds)\b/i;
+  private static readonly LOAD_PATTERN = /@\s*(\d+(?:\.\d+)?)\s*(lbs?|kgs?|#|%)?|\b(\d+(?:\.\d+)?)\s*(lbs?|kgs?|#|%)(?![a-z])|\b(bw|bodyweight)\b/i;
+  private static readonly DURATION_PATTERN = /\b(\d+(?:\.\d+)?)\s*(s|secs?|seconds|mins?|minutes)\b|(?:^|\s):(\d{2})\b/i;
+  private static readonly PER_SIDE_PATTERN = /\b(?:each|per)\s+(?:side|leg|arm|hand|direction|way)\b|\/\s*(?:side|leg|arm|ea)\b|\b(?:each|ea|e\/s)\b\.?/i;
+
+  static parseItem(line: string): WorkoutItem {
+    return {
+      raw: line,
+      exercise: this.parseExercise(line),
+    };
+  }
+
+  static parseExercise(line: string): ExercisePrescription | null {
+    // Matched spans are blanked out with spaces rather than removed so that
+    // match positions stay aligned with the original line
+    let working = line;
+    let firstMatchIndex = line.length;
+    let matched = false;
+
+    const take = (pattern: RegExp): RegExpMatchArray | null => {
+      const match = working.match(pattern);
+      if (!match || match.index === undefined) {
+        return null;
+      }
+      working = working.slice(0, match.index) + ' '.repeat(match[0].length) + working.slice(match.index + match[0].length);
+      firstMatchIndex = Math.min(firstMatchIndex, match.index);
+      matched = true;
+      return match;
+    };
+
+    const exercise: ExercisePrescription = { name: '', perSide: false };
+
+    const rpeMatch = take(this.RPE_PATTERN);
+    if (rpeMatch) {
+      exercise.rpe = parseFloat(rpeMatch[1]!);
+    }
+
+    const rirMatch = take(this.RIR_PATTERN);
+    if (rirMatch) {
+      exercise.rir = parseInt(rirMatch[1] ?? rirMatch[2]!);
+    }
+
+    const tempoMatch = take(this.TEMPO_PATTERN);
+    if (tempoMatch) {
+      exercise.tempo = (tempoMatch[1] ?? tempoMatch[2]!).toUpperCase();
+    }
+
+    const restMatch = take(this.REST_PATTERN);
+    if (restMatch) {
+      exercise.restSeconds = this.toSeconds(restMatch[1] ?? restMatch[3]!, restMatch[2] ?? restMatch[4]);
+    }
+
+    const timedSetsMatch = take(this.TIMED_SETS_PATTERN);
+    if (timedSetsMatch) {
+      exercise.sets = parseInt(timedSetsMatch[1]!);
+      exercise.durationSeconds = timedSetsMatch[2]
+        ? parseInt(timedSetsMatch[2])
+        : this.toSeconds(timedSetsMatch[3]!, timedSetsMatch[4]);
+    }
+
+    const amrapMatch = take(this.AMRAP_PATTERN);
+    if (amrapMatch) {
+      exercise.amrap = true;
+      if (amrapMatch[1]) {
+        exercise.sets = parseInt(amrapMatch[1]);
+      }
+    }
+
+    const setsRepsMatch = take(this.SETS_OF_REPS_PATTERN) ?? take(this.SETS_X_REPS_PATTERN);
+    if (setsRepsMatch) {
+      exercise.sets = parseInt(setsRepsMatch[1]!);
+      exercise.reps = this.toRepRange(setsRepsMatch[2]!, setsRepsMatch[3]);
+    } else {
+      const repsMatch = take(this.REPS_PATTERN);
+      if (repsMatch) {
+        exercise.reps = this.toRepRange(repsMatch[1]!, repsMatch[2]);
+      }
+
+      const setsMatch = exercise.sets === undefined ? take(this.SETS_PATTERN) : null;
+      if (setsMatch) {
+        exercise.sets = parseInt(setsMatch[1]!);
+      }
+    }
+
+    const loadMatch = take(this.LOAD_PATTERN);
+    if (loadMatch) {
+      exercise.load = this.toLoad(loadMatch);
+    }
+
+    if (exercise.durationSeconds === undefined) {
+      const durationMatch = take(this.DURATION_PATTERN);
+      if (durationMatch) {
+        exercise.durationSeconds = durationMatch[3]
+          ? parseInt(durationMatch[3])
+          : this.toSeconds(durationMatch[1]!, durationMatch[2]);
+      }
+    }
+
+    if (take(this.PER_SIDE_PATTERN)) {
+      exercise.perSide = true;
+    }
+
+    if (!matched) {
+      return null;
+    }
+
+    // A rest instruction on its own, such as "Rest 90s between sets", is a note
+    const prescribed = exercise.sets ?? exercise.reps ?? exercise.amrap ?? exercise.load ?? exercise.tempo
+      ?? exercise.rpe ?? exercise.rir ?? exercise.durationSeconds;
+    if (restMatch && prescribed === undefined && !exercise.perSide && !this.cleanName(line.slice(0, firstMatchIndex))) {
+      return null;
+    }
+
+    // The name is whatever precedes the first prescription token; lines such as
+    // "5 minutes light cardio" put it last, so fall back to the leftover text
+    exercise.name = this.cleanName(line.slice(0, firstMatchIndex)) || this.cleanName(working);
+
+    return exercise;
+  }
+
+  static formatReps(reps: RepRange): string {
+    return reps.min === reps.max ? `${reps.min}` : `${reps.min}-${reps.max}`;
+  }
+
+  private static toRepRange(min: string, max?: string): RepRange {
+    const minValue = parseInt(min);
+    return {
+      min: minValue,
+      max: max ? parseInt(max) : minValue,
+    };
+  }
+
+  private static toLoad(match: RegExpMatchArray): ExerciseLoad {
+    const raw = match[0].replace(/^@\s*/, '').trim();
+
+    if (match[5]) {
+      return { unit: 'bw', raw };
+    }
+
+    const value = parseFloat(match[1] ?? match[3]!);
+    const unitText = (match[2] ?? match[4] ?? '').toLowerCase();
+    let unit: LoadUnit | undefined;
+
+    if (unitText.startsWith('lb') || unitText === '#') {
+      unit = 'lb';
+    } else if (unitText.startsWith('kg')) {
+      unit = 'kg';
+    } else if (unitText === '%') {
+      unit = '%';
+    }
+
+    return unit ? { value, unit, raw } : { value, raw };
+  }
+
+  private static toSeconds(value: string, unit?: string): number {
+    if (value.includes(':')) {
+      const [minutes, seconds] = value.split(':');
+      return parseInt(minutes!) * 60 + parseInt(seconds!);
+    }
+
+    const amount = parseFloat(value);
+    return unit && /^m/i.test(unit) ? Math.round(amount * 60) : Math.round(amount);
+  }
+
+  private static cleanName(text: string): string {
+    return text
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s:\-–,@(]+|[\s:\-–,@(]+$/g, '')
+      .trim();
+  }
+}
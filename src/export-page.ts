@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import { Command } from 'commander';
+import { NotionClient } from './notion';
+import { blocksToMarkdown } from './blocks';
+import { loadConfig } from './config';
+import { parseDateArgument } from './dates';
+import { PageTemplates } from './page-templates';
+import { NotFoundError, UsageError, addGlobalOptions, printResult, runProgram, type GlobalOptions } from './cli';
+
+export interface ExportPageOptions extends GlobalOptions {
+  notionPage?: string;
+  date?: string;
+  sheetOwner?: string;
+  sheetTitle?: string;
+  out?: string;
+  media?: boolean;
+}
+
+export interface ExportPageResult {
+  pageTitle: string;
+  pageId: string;
+  markdown: string;
+  // Set when written to a file
+  path?: string;
+}
+
+/**
+ * Converts a Notion child page, found by title or by the day page title for a
+ * date, to Markdown with the page title as its heading.
+ */
+export async function exportPage(options: ExportPageOptions): Promise<ExportPageResult> {
+  const config = await loadConfig({ profile: options.profile });
+
+  const pageTitle = options.notionPage || (options.date
+    ? PageTemplates.fromConfig(config).render('day', {
+      date: parseDateArgument(options.date),
+      sheetTitle: options.sheetTitle || config.defaults?.sheetTitle,
+      sheetOwner: options.sheetOwner || config.defaults?.sheetOwner,
+    }).title
+    : undefined);
+
+  if (!pageTitle) {
+    throw new UsageError('Pass --notion-page <title> or --date <date>');
+  }
+
+  const client = new NotionClient(config);
+  const pageId = await client.findNestedPage(pageTitle);
+  if (!pageId) {
+    throw new NotFoundError(`Notion page "${pageTitle}" not found in parent page`);
+  }
+
+  const blocks = await client.getPageBlocks(pageId);
+  const content = blocksToMarkdown(blocks, { media: options.media !== false });
+  const markdown = `# ${pageTitle}\n\n${content}\n`;
+
+  if (options.out) {
+    await fs.writeFile(options.out, markdown, 'utf8');
+    console.log(`Exported "${pageTitle}" to ${options.out}`);
+  }
+  console.log(client.requestSummary());
+
+  return { pageTitle, pageId, markdown, path: options.out };
+}
+
+export function exportCommand(name: string = 'export'): Command {
+  const command = new Command(name);
+
+  command
+    .description('Export a Notion page to Markdown')
+    .option('--notion-page <title>', 'Title of the nested Notion page')
+    .option('--date <date>', 'Export the day page for a date (today, yesterday, YYYY-MM-DD, M/D/YYYY)')
+    .option('--sheet-owner <email>', 'Google Sheets owner email, for page titles that use {owner}')
+    .option('--sheet-title <title>', 'Google Sheets document title, for page titles that use {sheet}')
+    .option('--out <file>', 'Write the Markdown to a file instead of the console')
+    .option('--no-media', 'Leave out images, videos, embeds and bookmarks')
+    .action(async (_, actionCommand: Command) => {
+      const options = actionCommand.optsWithGlobals<ExportPageOptions>();
+
+      // Progress goes to stderr so stdout carries only the Markdown
+      const log = console.log;
+      if (!options.out) {
+        console.log = console.error;
+      }
+      let result: ExportPageResult;
+      try {
+        result = await exportPage(options);
+      } finally {
+        console.log = log;
+      }
+
+      printResult(actionCommand, result, ({ markdown, path }) => {
+        if (!path) {
+          process.stdout.write(markdown);
+        }
+      });
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(exportCommand('export-page')));
+}
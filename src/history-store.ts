@@ -0,0 +1,160 @@
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import type { WorkoutSession } from './notion';
+
+export const HISTORY_FILE_PATH = 'workout-history.jsonl';
+
+export interface HistoryEntry {
+  id: string;
+  kind: 'week' | 'day';
+  spreadsheetId: string;
+  sheetTitle?: string;
+  cellReference: string;
+  weekNumber?: number;
+  pageTitle: string;
+  notionPageId?: string;
+  sessions: WorkoutSession[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface HistoryFilter {
+  kind?: HistoryEntry['kind'];
+  weekNumber?: number;
+  pageTitle?: string;
+  since?: Date;
+  until?: Date;
+  search?: string;
+  limit?: number;
+}
+
+export class WorkoutHistory {
+  private filePath: string;
+
+  constructor(filePath: string = HISTORY_FILE_PATH) {
+    this.filePath = filePath;
+  }
+
+  async record(entry: NewHistoryEntry): Promise<HistoryEntry> {
+    const now = new Date().toISOString();
+    const stored: HistoryEntry = {
+      id: randomUUID(),
+      ...entry,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await fs.appendFile(this.filePath, `${JSON.stringify(stored)}\n`, 'utf8');
+    return stored;
+  }
+
+  async update(id: string, changes: Partial<NewHistoryEntry>): Promise<HistoryEntry | null> {
+    const entries = await this.readAll();
+    const index = entries.findIndex((entry) => entry.id === id);
+
+    if (index === -1) {
+      return null;
+    }
+
+    const updated: HistoryEntry = {
+      ...entries[index]!,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    };
+    entries[index] = updated;
+
+    await this.writeAll(entries);
+    return updated;
+  }
+
+  async upsert(entry: NewHistoryEntry): Promise<HistoryEntry> {
+    if (entry.notionPageId) {
+      const existing = (await this.readAll()).find((stored) => stored.notionPageId === entry.notionPageId);
+      if (existing) {
+        return (await this.update(existing.id, entry))!;
+      }
+    }
+
+    return this.record(entry);
+  }
+
+  async list(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+    const search = filter.search?.toLowerCase();
+
+    const entries = (await this.readAll()).filter((entry) => {
+      const createdAt = new Date(entry.createdAt);
+
+      if (filter.kind && entry.kind !== filter.kind) return false;
+      if (filter.weekNumber !== undefined && entry.weekNumber !== filter.weekNumber) return false;
+      if (filter.pageTitle !== undefined && entry.pageTitle !== filter.pageTitle) return false;
+      if (filter.since && createdAt < filter.since) return false;
+      if (filter.until && createdAt > filter.until) return false;
+      if (search && !this.matchesSearch(entry, search)) return false;
+
+      return true;
+    });
+
+    // Newest first
+    entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return filter.limit !== undefined ? entries.slice(0, filter.limit) : entries;
+  }
+
+  async get(idOrPrefix: string): Promise<HistoryEntry | null> {
+    const entries = await this.readAll();
+    const exact = entries.find((entry) => entry.id === idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = entries.filter((entry) => entry.id.startsWith(idOrPrefix));
+    if (matches.length > 1) {
+      throw new Error(`History id prefix "${idOrPrefix}" is ambiguous (${matches.length} matches)`);
+    }
+
+    return matches[0] ?? null;
+  }
+
+  private matchesSearch(entry: HistoryEntry, search: string): boolean {
+    if (entry.pageTitle.toLowerCase().includes(search)) {
+      return true;
+    }
+
+    return entry.sessions.some((session) =>
+      session.sections.some((section) =>
+        section.header?.toLowerCase().includes(search)
+        || section.content.some((line) => line.toLowerCase().includes(search))
+      )
+    );
+  }
+
+  private async readAll(): Promise<HistoryEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Error reading workout history from ${this.filePath}: ${error}`);
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as HistoryEntry;
+        } catch (error) {
+          throw new Error(`Invalid history entry on line ${index + 1} of ${this.filePath}: ${error}`);
+        }
+      });
+  }
+
+  private async writeAll(entries: HistoryEntry[]): Promise<void> {
+    const content = entries.map((entry) => JSON.stringify(entry)).join('\n');
+    await fs.writeFile(this.filePath, content ? `${content}\n` : '', 'utf8');
+  }
+}
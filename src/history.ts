@@ -0,0 +1,130 @@
+import { Command } from 'commander';
+import { WorkoutHistory, type HistoryEntry } from './history-store';
+import { loadConfig } from './config';
+import { addDays, parseDateArgument } from './dates';
+import {
+  NotFoundError,
+  UsageError,
+  addGlobalOptions,
+  parseWholeNumberOption,
+  printResult,
+  runProgram,
+  type GlobalOptions,
+} from './cli';
+
+function formatEntryLine(entry: HistoryEntry): string {
+  const created = entry.createdAt.replace('T', ' ').slice(0, 16);
+  const week = entry.weekNumber !== undefined ? `W${entry.weekNumber}` : '-';
+  return [
+    entry.id.slice(0, 8),
+    created,
+    entry.kind.padEnd(4),
+    week.padEnd(4),
+    entry.cellReference.padEnd(8),
+    entry.pageTitle,
+  ].join('  ');
+}
+
+function printEntry(entry: HistoryEntry): void {
+  console.log(`ID:          ${entry.id}`);
+  console.log(`Title:       ${entry.pageTitle}`);
+  console.log(`Kind:        ${entry.kind}`);
+  if (entry.weekNumber !== undefined) {
+    console.log(`Week:        ${entry.weekNumber}`);
+  }
+  console.log(`Spreadsheet: ${entry.sheetTitle ? `${entry.sheetTitle} ` : ''}(${entry.spreadsheetId})`);
+  console.log(`Cells:       ${entry.cellReference}`);
+  console.log(`Notion page: ${entry.notionPageId ?? '-'}`);
+  console.log(`Created:     ${entry.createdAt}`);
+  console.log(`Updated:     ${entry.updatedAt}`);
+
+  for (const session of entry.sessions) {
+    console.log(`\nSession ${session.sessionNumber}`);
+    for (const section of session.sections) {
+      if (section.header) {
+        console.log(`  ${section.header}`);
+      }
+      for (const line of section.content) {
+        console.log(`    - ${line}`);
+      }
+    }
+  }
+}
+
+// A local calendar date; with `endOfDay` the last moment of it, so --until
+// includes entries created later that day
+function parseDateOption(name: string, value: string, endOfDay: boolean = false): Date {
+  let date: Date;
+  try {
+    date = parseDateArgument(value);
+  } catch (error) {
+    throw new UsageError(`Invalid --${name}: ${error instanceof Error ? error.message : error}`);
+  }
+  return endOfDay ? new Date(addDays(date, 1).getTime() - 1) : date;
+}
+
+async function openHistory(profile?: string): Promise<WorkoutHistory> {
+  const config = await loadConfig({ profile });
+  return new WorkoutHistory(config.history?.path);
+}
+
+export function historyCommand(name: string = 'history'): Command {
+  const command = new Command(name);
+
+  command
+    .description('Browse the local history of workout sessions published to Notion');
+
+  command
+    .command('list')
+    .description('List recorded workout pages, newest first')
+    .option('--kind <kind>', 'Only show "week" or "day" entries')
+    .option('--week <number>', 'Only show entries for this week number')
+    .option('--since <date>', 'Only show entries created on or after this date (today, yesterday, YYYY-MM-DD, M/D/YYYY)')
+    .option('--until <date>', 'Only show entries created on or before this date (the whole day)')
+    .option('--search <text>', 'Only show entries whose title or exercises contain this text')
+    .option('--limit <number>', 'Maximum number of entries to show')
+    .action(async (options, actionCommand: Command) => {
+      if (options.kind && options.kind !== 'week' && options.kind !== 'day') {
+        throw new UsageError(`Invalid --kind "${options.kind}". Expected "week" or "day"`);
+      }
+
+      const history = await openHistory(actionCommand.optsWithGlobals<GlobalOptions>().profile);
+      const entries = await history.list({
+        kind: options.kind,
+        weekNumber: options.week !== undefined ? parseWholeNumberOption('week', options.week, 1) : undefined,
+        since: options.since ? parseDateOption('since', options.since) : undefined,
+        until: options.until ? parseDateOption('until', options.until, true) : undefined,
+        search: options.search,
+        limit: options.limit !== undefined ? parseWholeNumberOption('limit', options.limit, 0) : undefined,
+      });
+
+      printResult(actionCommand, entries, () => {
+        if (entries.length === 0) {
+          console.log('No history entries found');
+          return;
+        }
+
+        entries.forEach((entry) => console.log(formatEntryLine(entry)));
+      });
+    });
+
+  command
+    .command('show <id>')
+    .description('Show a recorded workout page by id (or unique id prefix)')
+    .action(async (id: string, _, actionCommand: Command) => {
+      const history = await openHistory(actionCommand.optsWithGlobals<GlobalOptions>().profile);
+      const entry = await history.get(id);
+
+      if (!entry) {
+        throw new NotFoundError(`No history entry found for id "${id}"`);
+      }
+
+      printResult(actionCommand, entry, printEntry);
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(historyCommand()));
+}
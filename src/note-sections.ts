@@ -0,0 +1,91 @@
+export interface NoteSectionRule {
+  name: string;
+  // Case-insensitive regex tested against the heading text; defaults to
+  // headings that start with `name`
+  pattern?: string;
+}
+
+export interface NoteSection {
+  name: string;
+  content: string;
+}
+
+export const OTHER_SECTION = 'Other';
+
+const HEADING_PATTERN = /^#{1,6}\s+(.*)$/;
+// Older pages start the overall notes with a plain "Overall..." line
+const OVERALL_LINE_PATTERN = /^overall\b/i;
+const OVERALL_HEADING_PATTERN = /^overall(?:\s+notes)?\s*:?$/i;
+const OVERALL_SECTION = 'Overall Notes';
+
+/**
+ * Splits post-workout Markdown into sections at its headings, in page order.
+ * Without rules every heading is a section of its own; with rules, headings
+ * matching a rule go to that rule's section. Content before the first
+ * heading, and under headings no rule matches, goes to "Other" so nothing on
+ * the page is dropped. Sections seen twice are merged at the first.
+ */
+export function splitNoteSections(markdown: string, rules: NoteSectionRule[] = []): NoteSection[] {
+  const matchers = rules.map((rule) => ({
+    name: rule.name,
+    pattern: new RegExp(rule.pattern ?? `^${escapeRegExp(rule.name)}`, 'i'),
+  }));
+  const sections = new Map<string, string[]>();
+  let current = OTHER_SECTION;
+
+  for (const line of markdown.split('\n')) {
+    const trimmedLine = line.trim();
+    const markdownHeading = trimmedLine.match(HEADING_PATTERN)?.[1];
+    const heading = markdownHeading
+      ?? (OVERALL_LINE_PATTERN.test(trimmedLine) ? OVERALL_SECTION : undefined);
+
+    if (heading !== undefined) {
+      const text = getHeadingText(heading);
+      current = matchers.length === 0
+        ? text || OTHER_SECTION
+        : matchers.find((matcher) => matcher.pattern.test(text))?.name ?? OTHER_SECTION;
+
+      // Unmatched headings stay so their content still reads in context, and
+      // "Overall felt great" opens the section but is also its first note
+      if ((matchers.length > 0 && current === OTHER_SECTION)
+        || (markdownHeading === undefined && !OVERALL_HEADING_PATTERN.test(getHeadingText(trimmedLine)))) {
+        addLine(sections, current, line);
+      }
+      continue;
+    }
+
+    addLine(sections, current, line);
+  }
+
+  return Array.from(sections, ([name, lines]) => ({ name, content: lines.join('\n').trim() }))
+    .filter((section) => section.content);
+}
+
+/**
+ * The sections as Markdown, each under a "### Name:" heading.
+ */
+export function formatNoteSections(sections: NoteSection[]): string {
+  return sections.map((section) => `### ${section.name}:\n${section.content}`).join('\n\n');
+}
+
+function addLine(sections: Map<string, string[]>, name: string, line: string): void {
+  const lines = sections.get(name);
+  if (lines) {
+    lines.push(line);
+  } else {
+    sections.set(name, [line]);
+  }
+}
+
+// Heading text without Markdown emphasis, links or a trailing colon
+function getHeadingText(heading: string): string {
+  return heading
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_~`]/g, '')
+    .replace(/:\s*$/, '')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
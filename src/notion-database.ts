@@ -0,0 +1,272 @@
+import { NotionClient, type PageWriteMode, type PageWriteResult, type WorkoutSession } from './notion';
+import { ConfigError, type Config } from './config';
+import { formatDate } from './dates';
+
+export const SESSIONS_DATABASE_TITLE = 'Workout Sessions';
+export const WEEKS_DATABASE_TITLE = 'Workout Weeks';
+
+export type SessionFocus = 'Upper' | 'Lower' | 'Full Body';
+
+export interface WeekRow {
+  title: string;
+  weekNumber?: number;
+  startDate: Date;
+  sessions: WorkoutSession[];
+}
+
+export interface SessionRow {
+  title: string;
+  date: Date;
+  weekNumber?: number;
+  session: WorkoutSession;
+  // Row in the weeks database the session belongs to
+  weekRowId?: string;
+}
+
+interface DatabaseInfo {
+  id: string;
+  // Every database has exactly one title property, whatever it is called
+  titleProperty: string;
+}
+
+interface WorkoutDatabases {
+  sessions: DatabaseInfo;
+  weeks: DatabaseInfo;
+}
+
+// Notion rejects multi-select options containing commas or longer than 100 characters
+const MAX_OPTION_LENGTH = 100;
+
+const WEEK_PROPERTIES: Record<string, any> = {
+  Week: { number: {} },
+  Start: { date: {} },
+};
+
+function getSessionProperties(weeksDatabaseId: string): Record<string, any> {
+  return {
+    Date: { date: {} },
+    Week: { number: {} },
+    Session: { number: {} },
+    Focus: {
+      select: {
+        options: [
+          { name: 'Upper', color: 'blue' },
+          { name: 'Lower', color: 'green' },
+          { name: 'Full Body', color: 'purple' },
+        ],
+      },
+    },
+    Exercises: { multi_select: {} },
+    Status: {
+      select: {
+        options: [
+          { name: 'Planned', color: 'gray' },
+          { name: 'Done', color: 'green' },
+        ],
+      },
+    },
+    'Week Page': { relation: { database_id: weeksDatabaseId, single_property: {} } },
+  };
+}
+
+/**
+ * Writes weeks and sessions as rows of two Notion databases under the parent
+ * page, so they can be shown in calendar and board views and filtered by
+ * property. The databases are created, or missing properties added, on first
+ * use.
+ */
+export class NotionDatabaseClient extends NotionClient {
+  private sessionsDatabaseId?: string;
+  private weeksDatabaseId?: string;
+  private databases?: WorkoutDatabases;
+
+  constructor(config: Config) {
+    super(config);
+    this.sessionsDatabaseId = config.notion?.sessionsDatabaseId;
+    this.weeksDatabaseId = config.notion?.weeksDatabaseId;
+  }
+
+  async upsertWeekRow(row: WeekRow, mode: PageWriteMode): Promise<PageWriteResult> {
+    const { weeks } = await this.ensureDatabases();
+
+    const properties: Record<string, any> = {
+      [weeks.titleProperty]: { title: [{ text: { content: row.title } }] },
+      Week: { number: row.weekNumber ?? null },
+      Start: { date: { start: formatDate(row.startDate, 'YYYY-MM-DD') } },
+    };
+    const filter = row.weekNumber !== undefined
+      ? { property: 'Week', number: { equals: row.weekNumber } }
+      : { property: weeks.titleProperty, title: { equals: row.title } };
+
+    return this.upsertRow(weeks, filter, properties, this.blocks.buildWeek(row.sessions), mode);
+  }
+
+  async upsertSessionRow(row: SessionRow, mode: PageWriteMode): Promise<PageWriteResult> {
+    const { sessions } = await this.ensureDatabases();
+    const focus = getSessionFocus(row.session);
+
+    const properties: Record<string, any> = {
+      [sessions.titleProperty]: { title: [{ text: { content: row.title } }] },
+      Date: { date: { start: formatDate(row.date, 'YYYY-MM-DD') } },
+      Week: { number: row.weekNumber ?? null },
+      Session: { number: row.session.sessionNumber },
+      Focus: { select: focus ? { name: focus } : null },
+      Exercises: { multi_select: getExerciseNames(row.session).map((name) => ({ name })) },
+      'Week Page': { relation: row.weekRowId ? [{ id: row.weekRowId }] : [] },
+    };
+    const filter = {
+      and: [
+        { property: 'Date', date: { equals: formatDate(row.date, 'YYYY-MM-DD') } },
+        { property: 'Session', number: { equals: row.session.sessionNumber } },
+      ],
+    };
+
+    // Only new rows start as planned, so rewriting a session keeps it marked done
+    return this.upsertRow(sessions, filter, properties, this.blocks.buildDay(row.session), mode, {
+      Status: { select: { name: 'Planned' } },
+    });
+  }
+
+  async findWeekRow(weekNumber: number): Promise<string | null> {
+    const { weeks } = await this.ensureDatabases();
+    return this.findRow(weeks.id, { property: 'Week', number: { equals: weekNumber } });
+  }
+
+  private async upsertRow(
+    database: DatabaseInfo,
+    filter: any,
+    properties: Record<string, any>,
+    blocks: any[],
+    mode: PageWriteMode,
+    initialProperties: Record<string, any> = {}
+  ): Promise<PageWriteResult> {
+    if (mode !== 'create') {
+      const pageId = await this.findRow(database.id, filter);
+      if (pageId) {
+        await this.notion.pages.update({ page_id: pageId, properties });
+        return this.rewritePageContent(pageId, blocks, mode);
+      }
+    }
+
+    const pageId = await this.createPageWithContent(
+      { type: 'database_id', database_id: database.id },
+      { ...properties, ...initialProperties },
+      blocks
+    );
+    return { pageId, action: 'created' };
+  }
+
+  private async findRow(databaseId: string, filter: any): Promise<string | null> {
+    try {
+      const response = await this.notion.databases.query({
+        database_id: databaseId,
+        filter,
+        sorts: [{ timestamp: 'created_time', direction: 'descending' }],
+        page_size: 1,
+      });
+      return response.results[0]?.id ?? null;
+    } catch (error) {
+      throw new Error(`Error querying Notion database ${databaseId}: ${error}`);
+    }
+  }
+
+  private async ensureDatabases(): Promise<WorkoutDatabases> {
+    if (!this.databases) {
+      const weeks = await this.ensureDatabase(this.weeksDatabaseId, WEEKS_DATABASE_TITLE, WEEK_PROPERTIES);
+      const sessions = await this.ensureDatabase(this.sessionsDatabaseId, SESSIONS_DATABASE_TITLE, getSessionProperties(weeks.id));
+      this.databases = { weeks, sessions };
+    }
+    return this.databases;
+  }
+
+  private async ensureDatabase(databaseId: string | undefined, title: string, properties: Record<string, any>): Promise<DatabaseInfo> {
+    const id = databaseId ?? await this.findChildDatabase(title);
+
+    if (!id) {
+      console.log(`Creating Notion database "${title}"...`);
+      const database = await this.notion.databases.create({
+        parent: { type: 'page_id', page_id: this.parentPageId },
+        title: [{ type: 'text', text: { content: title } }],
+        properties: { Name: { title: {} }, ...properties },
+      });
+      return { id: database.id, titleProperty: 'Name' };
+    }
+
+    const database: any = await this.notion.databases.retrieve({ database_id: id });
+    const existing: Record<string, any> = database.properties;
+    const missing: Record<string, any> = {};
+
+    for (const [name, schema] of Object.entries(properties)) {
+      const type = Object.keys(schema)[0];
+      if (!existing[name]) {
+        missing[name] = schema;
+      } else if (existing[name].type !== type) {
+        throw new ConfigError(`Property "${name}" of Notion database "${title}" is a ${existing[name].type} property, expected ${type}`);
+      }
+    }
+
+    if (Object.keys(missing).length > 0) {
+      console.log(`Adding ${Object.keys(missing).join(', ')} to Notion database "${title}"`);
+      await this.notion.databases.update({ database_id: id, properties: missing });
+    }
+
+    const [titleProperty] = Object.entries(existing).find(([, property]) => property.type === 'title') ?? ['Name'];
+    return { id, titleProperty };
+  }
+
+  private async findChildDatabase(title: string): Promise<string | null> {
+    try {
+      let hasMore = true;
+      let nextCursor: string | undefined;
+
+      while (hasMore) {
+        const response = await this.notion.blocks.children.list({
+          block_id: this.parentPageId,
+          page_size: 100,
+          start_cursor: nextCursor,
+        });
+
+        for (const block of response.results) {
+          if ('type' in block && block.type === 'child_database' && block.child_database.title === title) {
+            return block.id;
+          }
+        }
+
+        hasMore = response.has_more;
+        nextCursor = response.next_cursor || undefined;
+      }
+
+      return null;
+    } catch (error) {
+      throw new Error(`Error searching for Notion database "${title}": ${error}`);
+    }
+  }
+}
+
+function getSessionFocus(session: WorkoutSession): SessionFocus | undefined {
+  const headers = session.sections
+    .filter((section) => section.type === 'upper_lower')
+    .map((section) => section.header?.toLowerCase() ?? '');
+  const upper = headers.some((header) => header.includes('upper'));
+  const lower = headers.some((header) => header.includes('lower'));
+
+  if (upper && lower) return 'Full Body';
+  if (upper) return 'Upper';
+  if (lower) return 'Lower';
+  return undefined;
+}
+
+function getExerciseNames(session: WorkoutSession): string[] {
+  const names = new Map<string, string>();
+
+  for (const section of session.sections) {
+    for (const item of section.items) {
+      const name = item.exercise?.name.replace(/,/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_OPTION_LENGTH);
+      if (name && !names.has(name.toLowerCase())) {
+        names.set(name.toLowerCase(), name);
+      }
+    }
+  }
+
+  return Array.from(names.values());
+}
@@ -0,0 +1,201 @@
+export interface NotionRequestOptions {
+  // Retries after a rate limit, conflict, server error or timeout (default 5)
+  maxRetries?: number;
+  // Requests in flight at once (default 3, Notion's average rate limit)
+  concurrency?: number;
+  // Time allowed for a single attempt (default 60000)
+  timeoutMs?: number;
+}
+
+export interface NotionRequestSummary {
+  requests: number;
+  retries: number;
+  rateLimited: number;
+  waitedMs: number;
+  // Requests per operation, e.g. "PATCH blocks/children"
+  operations: Record<string, number>;
+}
+
+type NotionFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30 * 1000;
+const ID_SEGMENT_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+/**
+ * Sits between the Notion SDK and the network as its `fetch`. Every request
+ * waits for one of `concurrency` slots, and rate limits (429), conflicts (409),
+ * server errors and timeouts are retried with exponential backoff, honouring
+ * Retry-After. Requests that create content are not retried after a server
+ * error or timeout, since they may already have been applied; callers recover
+ * those themselves (see NotionClient.appendBlocksInChunks).
+ */
+export class NotionRequestQueue {
+  readonly maxRetries: number;
+  readonly concurrency: number;
+  readonly timeoutMs: number;
+  private send: NotionFetch;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private stats: NotionRequestSummary = { requests: 0, retries: 0, rateLimited: 0, waitedMs: 0, operations: {} };
+
+  constructor(options: NotionRequestOptions = {}, send: NotionFetch = fetch) {
+    this.send = send;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Upper bound on one request including its retries, for the SDK's own timeout.
+   */
+  get deadlineMs(): number {
+    return (this.maxRetries + 1) * this.timeoutMs + this.maxRetries * MAX_DELAY_MS;
+  }
+
+  fetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const operation = describeOperation(method, url);
+    const replayable = isReplayable(method, url);
+
+    for (let attempt = 0; ; attempt++) {
+      this.stats.requests++;
+      this.stats.operations[operation] = (this.stats.operations[operation] ?? 0) + 1;
+
+      let response: Response;
+      await this.acquire();
+      try {
+        response = await this.send(url, { ...init, signal: AbortSignal.timeout(this.timeoutMs) });
+      } catch (error) {
+        if (!replayable || attempt >= this.maxRetries) {
+          throw error;
+        }
+        await this.retryAfter(backoff(attempt));
+        continue;
+      } finally {
+        this.release();
+      }
+
+      const retryable = response.status === 429
+        || response.status === 409
+        || (response.status >= 500 && replayable);
+      if (!retryable || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      if (response.status === 429) {
+        this.stats.rateLimited++;
+      }
+      await this.retryAfter(parseRetryAfter(response.headers.get('retry-after')) ?? backoff(attempt));
+    }
+  };
+
+  /**
+   * Runs `task` for every item with at most `concurrency` running at once,
+   * returning the results in item order.
+   */
+  async map<T, R>(items: T[], task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await task(items[index]!, index);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, items.length) }, worker));
+    return results;
+  }
+
+  summary(): NotionRequestSummary {
+    return { ...this.stats, operations: { ...this.stats.operations } };
+  }
+
+  formatSummary(): string {
+    const { requests, retries, rateLimited, waitedMs, operations } = this.stats;
+    const breakdown = Object.entries(operations)
+      .sort(([, a], [, b]) => b - a)
+      .map(([operation, count]) => `${operation} ${count}`)
+      .join(', ');
+
+    let line = `${requests} Notion request${requests === 1 ? '' : 's'}`;
+    if (breakdown) {
+      line += ` (${breakdown})`;
+    }
+    if (retries > 0) {
+      line += `, ${retries} retried${rateLimited > 0 ? ` (${rateLimited} rate limited)` : ''}, waited ${(waitedMs / 1000).toFixed(1)}s`;
+    }
+    return line;
+  }
+
+  private async retryAfter(delayMs: number): Promise<void> {
+    this.stats.retries++;
+    this.stats.waitedMs += delayMs;
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot straight to the next in line
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function backoff(attempt: number): number {
+  const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  // Jitter so parallel requests that failed together do not retry together
+  return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.min(MAX_DELAY_MS, Math.max(0, seconds * 1000));
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.min(MAX_DELAY_MS, Math.max(0, date - Date.now()));
+}
+
+/**
+ * Reads, updates and deletes can be sent twice safely. Creating a page and
+ * appending blocks cannot: a lost response does not mean the write failed.
+ */
+function isReplayable(method: string, url: string): boolean {
+  const path = new URL(url).pathname;
+  if (method === 'POST') {
+    return path.endsWith('/query');
+  }
+  if (method === 'PATCH') {
+    return !path.endsWith('/children');
+  }
+  return true;
+}
+
+function describeOperation(method: string, url: string): string {
+  const segments = new URL(url).pathname
+    .split('/')
+    .filter((segment) => segment && segment !== 'v1' && !ID_SEGMENT_PATTERN.test(segment));
+  return `${method} ${segments.join('/')}`;
+}
@@ -1,346 +1,466 @@
-import { Client } from '@notionhq/client';
-import fs from 'fs/promises';
-
-interface Config {
-  notion: {
-    token: string;
-    parentPageId: string;
-  };
-}
+import { APIResponseError, Client, RequestTimeoutError, UnknownHTTPResponseError } from '@notionhq/client';
+import type { WorkoutItem } from './exercise-parser';
+import { loadConfig, requireNotionConfig, type Config, type LoadConfigOptions } from './config';
+import { UsageError } from './cli';
+import { WorkoutBlockBuilder } from './blocks';
+import { NotionRequestQueue } from './notion-requests';
 
 export interface WorkoutSession {
   sessionNumber: number;
   sections: WorkoutSectionData[];
+  groups: WorkoutGroup[];
 }
 
 export interface WorkoutSectionData {
   type: 'section' | 'upper_lower' | 'text';
   header?: string;
+  groupLabel?: string;
+  groupOrder?: number;
   content: string[];
+  items: WorkoutItem[];
   youtubeLinks: string[];
 }
 
+export interface WorkoutGroup {
+  label: string;
+  kind: 'single' | 'superset' | 'circuit';
+  // Indexes into WorkoutSession.sections, ordered by member number (B1, B2, ...)
+  members: number[];
+}
+
+export type PageWriteMode = 'create' | 'update' | 'replace';
+
+export const PAGE_WRITE_MODES: PageWriteMode[] = ['create', 'update', 'replace'];
+
+export interface PageWriteResult {
+  pageId: string;
+  action: 'created' | 'updated' | 'replaced' | 'unchanged';
+}
+
+export interface PageAppearance {
+  // An emoji or an image URL
+  icon?: string;
+  // Image URL
+  cover?: string;
+}
+
+// Tries per chunk when an append fails without telling whether it was applied
+const APPEND_ATTEMPTS = 3;
+
+/**
+ * An append failed partway through a page. Re-running with `--mode update`
+ * keeps the blocks already written and adds the rest.
+ */
+export class PartialPageError extends Error {
+  readonly pageId: string;
+
+  constructor(pageId: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Notion page ${pageId} was only partly written: ${reason}. Re-run with --mode update to finish it`);
+    this.name = 'PartialPageError';
+    this.pageId = pageId;
+  }
+}
+
+export function parsePageWriteMode(value?: string): PageWriteMode {
+  if (!value) {
+    return 'create';
+  }
+  if (!PAGE_WRITE_MODES.includes(value as PageWriteMode)) {
+    throw new UsageError(`Invalid mode "${value}". Expected one of: ${PAGE_WRITE_MODES.join(', ')}`);
+  }
+  return value as PageWriteMode;
+}
+
 export class NotionClient {
-  private notion: Client;
-  private parentPageId: string;
+  protected notion: Client;
+  protected parentPageId: string;
+  protected blocks: WorkoutBlockBuilder;
+  protected requests: NotionRequestQueue;
 
   constructor(config: Config) {
+    const notionConfig = requireNotionConfig(config);
+    this.requests = new NotionRequestQueue(notionConfig.requests);
     this.notion = new Client({
-      auth: config.notion.token,
+      auth: notionConfig.token,
+      fetch: this.requests.fetch,
+      timeoutMs: this.requests.deadlineMs,
+    });
+    this.parentPageId = notionConfig.parentPageId;
+    this.blocks = new WorkoutBlockBuilder({
+      rendering: notionConfig.rendering,
+      sectionBlock: notionConfig.sectionBlock,
     });
-    this.parentPageId = config.notion.parentPageId;
   }
 
-  static async fromConfigFile(configPath: string = 'config.json'): Promise<NotionClient> {
-    const configContent = await fs.readFile(configPath, 'utf8');
-    const config = JSON.parse(configContent);
+  static async fromConfigFile(options: LoadConfigOptions = {}): Promise<NotionClient> {
+    const config = await loadConfig(options);
     return new NotionClient(config);
   }
 
-  async createWorkoutPage(title: string, sessions: WorkoutSession[], icon?: string): Promise<string> {
-    const allBlocks = await this.buildPageContent(sessions);
-
-    const initialBlocks = allBlocks.slice(0, 100);
-    const remainingBlocks = allBlocks.slice(100);
-
-    const pageData: any = {
-      parent: {
-        type: 'page_id',
-        page_id: this.parentPageId,
-      },
-      properties: {
-        title: {
-          title: [
-            {
-              text: {
-                content: title,
-              },
-            },
-          ],
-        },
-      },
-      children: initialBlocks,
-    };
+  /**
+   * Requests made so far, retries and time spent waiting on rate limits.
+   */
+  requestSummary(): string {
+    return this.requests.formatSummary();
+  }
 
-    if (icon) {
-      pageData.icon = {
-        type: 'emoji',
-        emoji: icon,
-      };
+  async createWorkoutPage(title: string, sessions: WorkoutSession[], appearance: PageAppearance = {}): Promise<string> {
+    return this.createPage(title, this.blocks.buildWeek(sessions), appearance);
+  }
+
+  async createDayWorkoutPage(title: string, session: WorkoutSession, appearance: PageAppearance = {}): Promise<string> {
+    return this.createPage(title, this.blocks.buildDay(session), appearance);
+  }
+
+  async upsertWorkoutPage(
+    title: string,
+    sessions: WorkoutSession[],
+    mode: PageWriteMode,
+    appearance: PageAppearance = {}
+  ): Promise<PageWriteResult> {
+    if (mode === 'create') {
+      return { pageId: await this.createWorkoutPage(title, sessions, appearance), action: 'created' };
     }
 
-    const page = await this.notion.pages.create(pageData);
+    const blocks = this.blocks.buildWeek(sessions);
+    return this.upsertPage(title, blocks, mode, () => this.createWorkoutPage(title, sessions, appearance), appearance);
+  }
 
-    if (remainingBlocks.length > 0) {
-      await this.appendBlocksInChunks(page.id, remainingBlocks);
+  async upsertDayWorkoutPage(
+    title: string,
+    session: WorkoutSession,
+    mode: PageWriteMode,
+    appearance: PageAppearance = {}
+  ): Promise<PageWriteResult> {
+    if (mode === 'create') {
+      return { pageId: await this.createDayWorkoutPage(title, session, appearance), action: 'created' };
     }
 
-    return page.id;
+    const blocks = this.blocks.buildDay(session);
+    return this.upsertPage(title, blocks, mode, () => this.createDayWorkoutPage(title, session, appearance), appearance);
   }
 
-  async createDayWorkoutPage(title: string, session: WorkoutSession): Promise<string> {
-    const blocks = await this.buildSingleSessionContent(session);
+  async findNestedPage(pageTitle: string): Promise<string | null> {
+    try {
+      let hasMore = true;
+      let nextCursor: string | undefined;
+
+      while (hasMore) {
+        const response = await this.notion.blocks.children.list({
+          block_id: this.parentPageId,
+          page_size: 100,
+          start_cursor: nextCursor,
+        });
 
-    const initialBlocks = blocks.slice(0, 100);
-    const remainingBlocks = blocks.slice(100);
+        for (const block of response.results) {
+          if ('type' in block && block.type === 'child_page') {
+            if (block.child_page.title === pageTitle) {
+              return block.id;
+            }
+          }
+        }
 
+        hasMore = response.has_more;
+        nextCursor = response.next_cursor || undefined;
+      }
+
+      return null;
+    } catch (error) {
+      throw new Error(`Error searching for nested page "${pageTitle}": ${error}`);
+    }
+  }
+
+  /**
+   * Creates a page under `parent` with `blocks` as its content. Notion takes at
+   * most 100 children per request, so the rest are appended afterwards.
+   */
+  protected async createPageWithContent(
+    parent: any,
+    properties: Record<string, any>,
+    blocks: any[],
+    appearance: PageAppearance = {}
+  ): Promise<string> {
     const page = await this.notion.pages.create({
-      parent: {
-        type: 'page_id',
-        page_id: this.parentPageId,
-      },
-      properties: {
-        title: {
-          title: [
-            {
-              text: {
-                content: title,
-              },
-            },
-          ],
-        },
-      },
-      children: initialBlocks,
+      ...this.buildAppearance(appearance),
+      parent,
+      properties,
+      children: blocks.slice(0, 100),
     });
 
-    if (remainingBlocks.length > 0) {
-      await this.appendBlocksInChunks(page.id, remainingBlocks);
+    if (blocks.length > 100) {
+      await this.appendBlocksInChunks(page.id, blocks.slice(100));
     }
 
     return page.id;
   }
 
-  private async buildPageContent(sessions: WorkoutSession[]): Promise<any[]> {
-    const blocks: any[] = [];
+  private async createPage(title: string, blocks: any[], appearance: PageAppearance): Promise<string> {
+    return this.createPageWithContent(
+      { type: 'page_id', page_id: this.parentPageId },
+      { title: { title: [{ text: { content: title } }] } },
+      blocks,
+      appearance
+    );
+  }
 
-    for (const session of sessions) {
-      blocks.push({
-        object: 'block',
-        type: 'heading_2',
-        heading_2: {
-          rich_text: [
-            {
-              type: 'text',
-              text: {
-                content: `Session ${session.sessionNumber}`,
-              },
-            },
-          ],
-        },
+  private async upsertPage(
+    title: string,
+    blocks: any[],
+    mode: Exclude<PageWriteMode, 'create'>,
+    createPage: () => Promise<string>,
+    appearance: PageAppearance = {}
+  ): Promise<PageWriteResult> {
+    const pageId = await this.findNestedPage(title);
+    if (!pageId) {
+      return { pageId: await createPage(), action: 'created' };
+    }
+
+    if (appearance.icon || appearance.cover) {
+      await this.notion.pages.update({
+        page_id: pageId,
+        ...this.buildAppearance(appearance),
       });
+    }
 
-      for (const section of session.sections) {
-        if (section.type === 'section' && section.header) {
-          blocks.push({
-            object: 'block',
-            type: 'paragraph',
-            paragraph: {
-              rich_text: [
-                {
-                  type: 'text',
-                  text: {
-                    content: section.header,
-                  },
-                },
-              ],
-            },
-          });
-
-          for (const item of section.content) {
-            blocks.push({
-              object: 'block',
-              type: 'bulleted_list_item',
-              bulleted_list_item: {
-                rich_text: [
-                  {
-                    type: 'text',
-                    text: {
-                      content: item,
-                    },
-                  },
-                ],
-              },
-            });
-          }
-        } else if (section.type === 'upper_lower' && section.header) {
-          blocks.push({
-            object: 'block',
-            type: 'heading_3',
-            heading_3: {
-              rich_text: [
-                {
-                  type: 'text',
-                  text: {
-                    content: section.header,
-                  },
-                },
-              ],
-            },
-          });
-
-          for (const item of section.content) {
-            blocks.push({
-              object: 'block',
-              type: 'bulleted_list_item',
-              bulleted_list_item: {
-                rich_text: [
-                  {
-                    type: 'text',
-                    text: {
-                      content: item,
-                    },
-                  },
-                ],
-              },
-            });
-          }
-        } else if (section.type === 'text') {
-          for (const item of section.content) {
-            blocks.push({
-              object: 'block',
-              type: 'paragraph',
-              paragraph: {
-                rich_text: [
-                  {
-                    type: 'text',
-                    text: {
-                      content: item,
-                    },
-                  },
-                ],
-              },
-            });
-          }
-        }
+    return this.rewritePageContent(pageId, blocks, mode);
+  }
 
-        for (const youtubeUrl of section.youtubeLinks) {
-          blocks.push({
-            object: 'block',
-            type: 'embed',
-            embed: {
-              url: youtubeUrl,
-            },
-          });
-        }
+  /**
+   * Replaces the page's content with `blocks`, or with `update` rewrites only
+   * the blocks that changed.
+   */
+  protected async rewritePageContent(
+    pageId: string,
+    blocks: any[],
+    mode: Exclude<PageWriteMode, 'create'>
+  ): Promise<PageWriteResult> {
+    const existingBlocks = await this.listBlockTree(pageId);
+
+    if (mode === 'replace') {
+      for (const block of existingBlocks) {
+        await this.notion.blocks.delete({ block_id: block.id });
       }
+      await this.appendBlocksInChunks(pageId, blocks);
+      return { pageId, action: 'replaced' };
     }
 
-    return blocks;
+    // Keep the unchanged head and tail of the page and only rewrite the middle.
+    // Blocks can only be inserted after an existing block, so a change at the
+    // very top of the page rewrites everything below it.
+    const existingSignatures = existingBlocks.map((block) => this.blockSignature(block));
+    const freshSignatures = blocks.map((block) => this.blockSignature(block));
+    const maxShared = Math.min(existingSignatures.length, freshSignatures.length);
+
+    let prefix = 0;
+    while (prefix < maxShared && existingSignatures[prefix] === freshSignatures[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      prefix + suffix < maxShared
+      && existingSignatures[existingSignatures.length - 1 - suffix] === freshSignatures[freshSignatures.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const blocksToDelete = existingBlocks.slice(prefix, existingBlocks.length - suffix);
+    let blocksToInsert = blocks.slice(prefix, blocks.length - suffix);
+
+    if (prefix === 0 && suffix > 0 && blocksToInsert.length > 0) {
+      blocksToDelete.push(...existingBlocks.slice(existingBlocks.length - suffix));
+      blocksToInsert = blocks;
+    }
+
+    if (blocksToDelete.length === 0 && blocksToInsert.length === 0) {
+      return { pageId, action: 'unchanged' };
+    }
+
+    for (const block of blocksToDelete) {
+      await this.notion.blocks.delete({ block_id: block.id });
+    }
+
+    const anchor = prefix > 0 ? existingBlocks[prefix - 1]?.id : undefined;
+    await this.appendBlocksInChunks(pageId, blocksToInsert, anchor);
+
+    return { pageId, action: 'updated' };
   }
 
-  private async buildSingleSessionContent(session: WorkoutSession): Promise<any[]> {
-    const blocks: any[] = [];
+  protected buildAppearance(appearance: PageAppearance): { icon?: any; cover?: any } {
+    const result: { icon?: any; cover?: any } = {};
 
-    for (const section of session.sections) {
-      if (section.type === 'section' && section.header) {
-        blocks.push({
-          object: 'block',
-          type: 'paragraph',
-          paragraph: {
-            rich_text: [
-              {
-                type: 'text',
-                text: {
-                  content: section.header,
-                },
-              },
-            ],
-          },
-        });
+    if (appearance.icon) {
+      result.icon = /^https?:\/\//.test(appearance.icon)
+        ? { type: 'external', external: { url: appearance.icon } }
+        : { type: 'emoji', emoji: appearance.icon };
+    }
+    if (appearance.cover) {
+      result.cover = { type: 'external', external: { url: appearance.cover } };
+    }
 
-        for (const item of section.content) {
-          blocks.push({
-            object: 'block',
-            type: 'bulleted_list_item',
-            bulleted_list_item: {
-              rich_text: [
-                {
-                  type: 'text',
-                  text: {
-                    content: item,
-                  },
-                },
-              ],
-            },
-          });
-        }
-      } else if (section.type === 'upper_lower' && section.header) {
-        blocks.push({
-          object: 'block',
-          type: 'heading_3',
-          heading_3: {
-            rich_text: [
-              {
-                type: 'text',
-                text: {
-                  content: section.header,
-                },
-              },
-            ],
-          },
-        });
+    return result;
+  }
 
-        for (const item of section.content) {
-          blocks.push({
-            object: 'block',
-            type: 'bulleted_list_item',
-            bulleted_list_item: {
-              rich_text: [
-                {
-                  type: 'text',
-                  text: {
-                    content: item,
-                  },
-                },
-              ],
-            },
-          });
-        }
-      } else if (section.type === 'text') {
-        for (const item of section.content) {
-          blocks.push({
-            object: 'block',
-            type: 'paragraph',
-            paragraph: {
-              rich_text: [
-                {
-                  type: 'text',
-                  text: {
-                    content: item,
-                  },
-                },
-              ],
-            },
-          });
+  /**
+   * The page's content blocks, each with its nested blocks under `children`.
+   */
+  async getPageBlocks(pageId: string): Promise<any[]> {
+    return this.listBlockTree(pageId);
+  }
+
+  /**
+   * A day page's blocks without those generated from `session`, leaving what
+   * was written on the page. Headings stay, since notes are split by them,
+   * and blocks nested under a generated block move up in its place.
+   */
+  removeWorkoutBlocks(blocks: any[], session: WorkoutSession): any[] {
+    const generated = new Map<string, number>();
+    const collect = (built: any[]) => {
+      for (const block of built) {
+        if (!block.type.startsWith('heading_')) {
+          const signature = this.blockSignature(block, false);
+          generated.set(signature, (generated.get(signature) ?? 0) + 1);
         }
+        collect(block[block.type]?.children ?? []);
       }
-
-      for (const youtubeUrl of section.youtubeLinks) {
-        blocks.push({
-          object: 'block',
-          type: 'embed',
-          embed: {
-            url: youtubeUrl,
-          },
-        });
+    };
+    collect(this.blocks.buildDay(session));
+
+    const strip = (pageBlocks: any[]): any[] => pageBlocks.flatMap((block) => {
+      const children = strip(block.children ?? []);
+      const signature = this.blockSignature(block, false);
+      const remaining = generated.get(signature) ?? 0;
+      if (!block.type.startsWith('heading_') && remaining > 0) {
+        generated.set(signature, remaining - 1);
+        return children;
       }
+      return [{ ...block, children }];
+    });
+
+    return strip(blocks);
+  }
+
+  private async listBlockTree(blockId: string): Promise<any[]> {
+    const blocks: any[] = [];
+    let hasMore = true;
+    let nextCursor: string | undefined;
+
+    while (hasMore) {
+      const response = await this.notion.blocks.children.list({
+        block_id: blockId,
+        page_size: 100,
+        start_cursor: nextCursor,
+      });
+
+      // Child pages and databases are separate documents, not page content
+      const content = (response.results as any[])
+        .filter((block) => block.type !== 'child_page' && block.type !== 'child_database');
+      await this.requests.map(content.filter((block) => block.has_children), async (block) => {
+        block.children = await this.listBlockTree(block.id);
+      });
+      blocks.push(...content);
+
+      hasMore = response.has_more;
+      nextCursor = response.next_cursor || undefined;
     }
 
     return blocks;
   }
 
-  private async appendBlocksInChunks(pageId: string, blocks: any[]): Promise<void> {
+  private blockSignature(block: any, deep: boolean = true): string {
+    const data = block[block.type] ?? {};
+    const text = (data.rich_text ?? [])
+      .map((richText: any) => richText.plain_text ?? richText.text?.content ?? '')
+      .join('');
+    const children = deep ? (block.children ?? data.children ?? []).map((child: any) => this.blockSignature(child)) : [];
+
+    return JSON.stringify([block.type, text, data.url ?? '', data.icon?.emoji ?? '', children]);
+  }
+
+  protected async appendBlocksInChunks(pageId: string, blocks: any[], after?: string): Promise<void> {
     const chunkSize = 100;
+    let anchor = after;
     for (let i = 0; i < blocks.length; i += chunkSize) {
       const chunk = blocks.slice(i, i + chunkSize);
-      await this.notion.blocks.children.append({
+      const appended = await this.appendChunk(pageId, chunk, anchor);
+
+      // Subsequent chunks go after the last block of this one
+      if (anchor) {
+        anchor = appended[appended.length - 1]?.id ?? anchor;
+      }
+    }
+  }
+
+  /**
+   * Appends are not retried by the request queue after a server error or
+   * timeout, because the blocks may have been written anyway. Look at the page
+   * before sending the chunk again so it never ends up there twice. Other
+   * errors, such as a 400 for invalid blocks, would only fail again.
+   */
+  private async appendChunk(pageId: string, chunk: any[], anchor?: string): Promise<any[]> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.notion.blocks.children.append({
+          block_id: pageId,
+          children: chunk,
+          ...(anchor ? { after: anchor } : {}),
+        });
+        return response.results;
+      } catch (error) {
+        if (!isUncertainFailure(error)) {
+          throw error;
+        }
+        const landed = await this.findAppendedChunk(pageId, chunk, anchor).catch(() => null);
+        if (landed) {
+          return landed;
+        }
+        if (attempt >= APPEND_ATTEMPTS) {
+          throw new PartialPageError(pageId, error);
+        }
+        console.log(`Appending blocks to ${pageId} failed (${error instanceof Error ? error.message : error}), retrying...`);
+      }
+    }
+  }
+
+  private async findAppendedChunk(pageId: string, chunk: any[], anchor?: string): Promise<any[] | null> {
+    const children: any[] = [];
+    let hasMore = true;
+    let nextCursor: string | undefined;
+
+    while (hasMore) {
+      const response = await this.notion.blocks.children.list({
         block_id: pageId,
-        children: chunk,
+        page_size: 100,
+        start_cursor: nextCursor,
       });
+      children.push(...response.results);
+      hasMore = response.has_more;
+      nextCursor = response.next_cursor || undefined;
     }
+
+    // Without an anchor the chunk was appended at the end of the page
+    const start = anchor ? children.findIndex((block) => block.id === anchor) + 1 : children.length - chunk.length;
+    if ((anchor && start === 0) || start < 0) {
+      return null;
+    }
+
+    const candidates = children.slice(start, start + chunk.length);
+    const landed = candidates.length === chunk.length
+      && candidates.every((block, index) => this.blockSignature(block, false) === this.blockSignature(chunk[index], false));
+    return landed ? candidates : null;
   }
 
   async appendBlocksToPage(pageId: string, blocks: any[]): Promise<void> {
     await this.appendBlocksInChunks(pageId, blocks);
   }
 }
+
+// A timeout or server error, after which an append may or may not have landed
+function isUncertainFailure(error: unknown): boolean {
+  if (APIResponseError.isAPIResponseError(error) || UnknownHTTPResponseError.isUnknownHTTPResponseError(error)) {
+    return error.status >= 500;
+  }
+  return RequestTimeoutError.isRequestTimeoutError(error)
+    || (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError'));
+}
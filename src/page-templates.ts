@@ -0,0 +1,134 @@
+import { ConfigError, type Config } from './config';
+import { formatDate } from './dates';
+import { ProgramCalendar } from './program-calendar';
+
+export interface IconRule {
+  // Conditions that must all match; a rule without conditions always matches
+  deload?: boolean;
+  weekday?: string;
+  weekNumber?: number;
+  icon: string;
+}
+
+export interface PageTemplate {
+  title?: string;
+  // An emoji or an image URL, either of which may contain variables
+  icon?: string;
+  // Checked in order before `icon`
+  iconRules?: IconRule[];
+  // Image URL for the page cover
+  cover?: string;
+}
+
+export interface TemplatesConfig {
+  coach?: string;
+  // BCP 47 locale for month and weekday names (e.g. "de-DE")
+  locale?: string;
+  // Extra {name} variables available to every template
+  variables?: Record<string, string>;
+  week?: PageTemplate;
+  day?: PageTemplate;
+}
+
+export interface TemplateContext {
+  // The day of a day page, or the first day of the week for a week page
+  date: Date;
+  // Derived from the program calendar when unset
+  weekNumber?: number;
+  deload?: boolean;
+  sheetTitle?: string;
+  sheetOwner?: string;
+}
+
+export interface RenderedPage {
+  title: string;
+  icon?: string;
+  cover?: string;
+}
+
+const DEFAULT_DAY_TITLE = '{date:M/D/YYYY}';
+const DEFAULT_WEEK_ICON = '{weekEmoji}';
+const DIGIT_EMOJIS = ['🔟', '1️⃣', '2️⃣', '3️⃣', '4️⃣', '5️⃣', '6️⃣', '7️⃣', '8️⃣', '9️⃣'];
+const VARIABLE_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Renders page titles, icons and covers from the `templates` section of
+ * config. Templates use `{name}` variables: week, weekEmoji, coach, sheet,
+ * owner, date (or `{date:FORMAT}` with the formatDate tokens) and anything
+ * under `templates.variables`.
+ */
+export class PageTemplates {
+  private templates: TemplatesConfig;
+  private calendar: ProgramCalendar | null;
+
+  constructor(templates: TemplatesConfig = {}, calendar: ProgramCalendar | null = null) {
+    this.templates = templates;
+    this.calendar = calendar;
+  }
+
+  static fromConfig(config: Config): PageTemplates {
+    return new PageTemplates(config.templates, ProgramCalendar.fromConfig(config.program));
+  }
+
+  render(kind: 'week' | 'day', context: TemplateContext): RenderedPage {
+    const template = this.templates[kind] ?? {};
+    const programWeek = context.weekNumber === undefined ? this.calendar?.weekAt(context.date) : null;
+    const resolved: TemplateContext = {
+      ...context,
+      weekNumber: context.weekNumber ?? programWeek?.weekNumber,
+      deload: context.deload ?? programWeek?.deload,
+    };
+
+    const title = template.title ?? (kind === 'week' ? this.defaultWeekTitle() : DEFAULT_DAY_TITLE);
+    const icon = this.selectIcon(template, resolved) ?? (kind === 'week' ? DEFAULT_WEEK_ICON : undefined);
+
+    return {
+      title: this.renderString(title, resolved, `templates.${kind}.title`),
+      icon: icon ? this.renderString(icon, resolved, `templates.${kind}.icon`) || undefined : undefined,
+      cover: template.cover ? this.renderString(template.cover, resolved, `templates.${kind}.cover`) : undefined,
+    };
+  }
+
+  renderString(template: string, context: TemplateContext, setting: string = 'template'): string {
+    return template.replace(VARIABLE_PATTERN, (_, name: string, argument?: string) => {
+      const value = this.resolveVariable(name, argument, context);
+      if (value === undefined) {
+        throw new ConfigError(`Unknown or unavailable variable {${name}} in ${setting}`);
+      }
+      return value;
+    });
+  }
+
+  private defaultWeekTitle(): string {
+    return this.templates.coach ? 'Week {week} with {coach}' : 'Week {week}';
+  }
+
+  private selectIcon(template: PageTemplate, context: TemplateContext): string | undefined {
+    const rule = (template.iconRules ?? []).find((candidate) =>
+      (candidate.deload === undefined || candidate.deload === (context.deload ?? false))
+      && (candidate.weekNumber === undefined || candidate.weekNumber === context.weekNumber)
+      && (candidate.weekday === undefined || WEEKDAYS[context.date.getDay()]!.startsWith(candidate.weekday.toLowerCase().slice(0, 3)))
+    );
+    return rule?.icon ?? template.icon;
+  }
+
+  private resolveVariable(name: string, argument: string | undefined, context: TemplateContext): string | undefined {
+    switch (name) {
+      case 'date':
+        return formatDate(context.date, argument || 'M/D/YYYY', this.templates.locale);
+      case 'week':
+        return context.weekNumber?.toString();
+      case 'weekEmoji':
+        return context.weekNumber !== undefined ? DIGIT_EMOJIS[context.weekNumber % 10] : undefined;
+      case 'coach':
+        return this.templates.coach;
+      case 'sheet':
+        return context.sheetTitle;
+      case 'owner':
+        return context.sheetOwner;
+      default:
+        return this.templates.variables?.[name];
+    }
+  }
+}
@@ -1,7 +1,15 @@
-import type { WorkoutSession } from './notion';
+import type { WorkoutSession, WorkoutSectionData, WorkoutGroup } from './notion';
+import { ExerciseParser } from './exercise-parser';
+import { PageTemplates } from './page-templates';
+
+export interface SectionBlock {
+  group?: WorkoutGroup;
+  sections: WorkoutSectionData[];
+}
 
 export class WorkoutParser {
   private static readonly SECTION_HEADER_PATTERN = /^[A-Z]\d*\./;
+  private static readonly SECTION_LABEL_PATTERN = /^([A-Z])(\d*)\./;
   private static readonly UPPER_LOWER_PATTERN = /^(upper body|lower body):$/i;
   private static readonly YOUTUBE_URL_PATTERN = /(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/watch\?v=|youtube\.com\/shorts\/|youtu\.be\/)([a-zA-Z0-9_-]{11})/g;
   private static readonly PLYO_PROGRESSION_PATTERN = /^(?:plyo progression|deep tier plyo):?$/i;
@@ -31,18 +39,22 @@ export class WorkoutParser {
 
   private static parseCellData(cellContent: string, sessionNumber: number): WorkoutSession {
     const lines = cellContent.split('\n').map(line => line.trim()).filter(line => line);
-    const sections: any[] = [];
-    let currentSection: any = null;
+    const sections: WorkoutSectionData[] = [];
+    let currentSection: WorkoutSectionData | null = null;
 
     for (const line of lines) {
       if (this.isSectionHeader(line)) {
         if (currentSection) {
           sections.push(currentSection);
         }
+        const labelMatch = line.trim().match(this.SECTION_LABEL_PATTERN);
         currentSection = {
           type: 'section',
           header: line.trim(),
+          groupLabel: labelMatch?.[1],
+          groupOrder: labelMatch?.[2] ? parseInt(labelMatch[2]) : undefined,
           content: [],
+          items: [],
           youtubeLinks: []
         };
       } else if (this.isUpperLowerBody(line)) {
@@ -53,6 +65,7 @@ export class WorkoutParser {
           type: 'upper_lower',
           header: line.trim(),
           content: [],
+          items: [],
           youtubeLinks: []
         };
       } else if (this.isStandaloneParagraph(line)) {
@@ -62,15 +75,9 @@ export class WorkoutParser {
           currentSection = null;
         }
         // Treat as standalone paragraph text, not nested in current section
-        const youtubeLinks = this.extractYouTubeLinks(line);
-        const cleanedLine = this.removeYouTubeLinks(line).trim();
-
-        if (cleanedLine || youtubeLinks.length > 0) {
-          sections.push({
-            type: 'text',
-            content: cleanedLine ? [cleanedLine] : [],
-            youtubeLinks: youtubeLinks
-          });
+        const textSection = this.createTextSection(line);
+        if (textSection) {
+          sections.push(textSection);
         }
       } else if (currentSection) {
         const youtubeLinks = this.extractYouTubeLinks(line);
@@ -81,17 +88,12 @@ export class WorkoutParser {
         const cleanedLine = this.removeYouTubeLinks(line).trim();
         if (cleanedLine) {
           currentSection.content.push(cleanedLine);
+          currentSection.items.push(ExerciseParser.parseItem(cleanedLine));
         }
       } else {
-        const youtubeLinks = this.extractYouTubeLinks(line);
-        const cleanedLine = this.removeYouTubeLinks(line).trim();
-
-        if (cleanedLine || youtubeLinks.length > 0) {
-          sections.push({
-            type: 'text',
-            content: cleanedLine ? [cleanedLine] : [],
-            youtubeLinks: youtubeLinks
-          });
+        const textSection = this.createTextSection(line);
+        if (textSection) {
+          sections.push(textSection);
         }
       }
     }
@@ -102,7 +104,52 @@ export class WorkoutParser {
 
     return {
       sessionNumber,
-      sections
+      sections,
+      groups: this.buildGroups(sections)
+    };
+  }
+
+  private static buildGroups(sections: WorkoutSectionData[]): WorkoutGroup[] {
+    const groups = new Map<string, number[]>();
+
+    sections.forEach((section, index) => {
+      if (section.type !== 'section' || !section.groupLabel) {
+        return;
+      }
+      const members = groups.get(section.groupLabel) ?? [];
+      members.push(index);
+      groups.set(section.groupLabel, members);
+    });
+
+    return Array.from(groups.entries()).map(([label, members]) => {
+      const orderedMembers = [...members].sort(
+        (a, b) => (sections[a]!.groupOrder ?? 0) - (sections[b]!.groupOrder ?? 0) || a - b
+      );
+
+      let kind: WorkoutGroup['kind'] = 'single';
+      if (orderedMembers.length === 2) {
+        kind = 'superset';
+      } else if (orderedMembers.length > 2) {
+        kind = 'circuit';
+      }
+
+      return { label, kind, members: orderedMembers };
+    });
+  }
+
+  private static createTextSection(line: string): WorkoutSectionData | null {
+    const youtubeLinks = this.extractYouTubeLinks(line);
+    const cleanedLine = this.removeYouTubeLinks(line).trim();
+
+    if (!cleanedLine && youtubeLinks.length === 0) {
+      return null;
+    }
+
+    return {
+      type: 'text',
+      content: cleanedLine ? [cleanedLine] : [],
+      items: cleanedLine ? [ExerciseParser.parseItem(cleanedLine)] : [],
+      youtubeLinks: youtubeLinks
     };
   }
 
@@ -148,8 +195,48 @@ export class WorkoutParser {
     return text.replace(this.YOUTUBE_URL_PATTERN, '').trim();
   }
 
-  static generatePageTitle(ownerEmail: string, sheetTitle: string): string {
-    const date = new Date().toISOString().split('T')[0];
-    return `${sheetTitle} - ${date}`;
+  /**
+   * Title for a page built from a whole sheet. The template accepts the page
+   * template variables, including `{owner}` for the owner email.
+   */
+  static generatePageTitle(ownerEmail: string, sheetTitle: string, template: string = '{sheet} - {date:YYYY-MM-DD}'): string {
+    return new PageTemplates().renderString(template, { date: new Date(), sheetTitle, sheetOwner: ownerEmail });
   }
 }
+
+/**
+ * Orders a session's sections for rendering, folding the supersets and
+ * circuits the parser grouped into one block at the position of their first
+ * member.
+ */
+export function groupSections(session: WorkoutSession): SectionBlock[] {
+  const groupsByFirstMember = new Map<number, WorkoutGroup>();
+  const groupedMembers = new Set<number>();
+
+  for (const group of session.groups ?? []) {
+    if (group.kind === 'single' || group.members.length === 0) {
+      continue;
+    }
+    groupsByFirstMember.set(Math.min(...group.members), group);
+    group.members.forEach((member) => groupedMembers.add(member));
+  }
+
+  const blocks: SectionBlock[] = [];
+  session.sections.forEach((section, index) => {
+    const group = groupsByFirstMember.get(index);
+    if (group) {
+      blocks.push({
+        group,
+        sections: group.members.map((member) => session.sections[member]!).filter(Boolean),
+      });
+    } else if (!groupedMembers.has(index)) {
+      blocks.push({ sections: [section] });
+    }
+  });
+
+  return blocks;
+}
+
+export function describeGroup(group: WorkoutGroup): string {
+  return group.kind === 'superset' ? `Superset ${group.label}` : `Circuit ${group.label}`;
+}
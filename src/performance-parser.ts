@@ -0,0 +1,214 @@
+import { ExerciseParser, type ExerciseLoad, type ExercisePrescription, type RepRange } from './exercise-parser';
+import type { WorkoutSession } from './notion';
+
+export interface PerformedExercise {
+  name: string;
+  raw: string;
+  skipped: boolean;
+  sets?: number;
+  reps?: RepRange;
+  load?: ExerciseLoad;
+  rpe?: number;
+  rir?: number;
+  durationSeconds?: number;
+}
+
+export type LogStatus = 'completed' | 'modified' | 'skipped' | 'not_logged' | 'unplanned';
+
+export interface ExerciseLogRecord {
+  exercise: string;
+  status: LogStatus;
+  section?: string;
+  prescribed?: ExercisePrescription;
+  performed?: PerformedExercise;
+}
+
+export interface LogRowContext {
+  date: string;
+  pageTitle: string;
+  sessionCell: string;
+}
+
+export const LOG_SHEET_HEADER = [
+  'Date',
+  'Notion Page',
+  'Session Cell',
+  'Section',
+  'Exercise',
+  'Status',
+  'Prescribed Sets',
+  'Prescribed Reps',
+  'Prescribed Load',
+  'Actual Sets',
+  'Actual Reps',
+  'Actual Load',
+  'RPE',
+  'Notes',
+];
+
+interface PrescribedEntry {
+  section?: string;
+  exercise: ExercisePrescription;
+}
+
+export class PerformanceParser {
+  // Also strips the "[x] " of to-do items and the "> " of quotes and callouts
+  private static readonly LIST_MARKER_PATTERN = /^(?:>\s*)*(?:(?:[-*+]|\d+\.)\s+(?:\[[ xX]\]\s+)?)?/;
+  private static readonly HEADING_PATTERN = /^#{1,6}\s/;
+  private static readonly SKIPPED_PREFIX_PATTERN = /^(?:skipped|skip|missed|didn'?t do|did not do)\s+(.+)$/i;
+  private static readonly SKIPPED_SUFFIX_PATTERN = /^(.+?)\s*[-:–]?\s*(?:skipped|missed|not done)\.?$/i;
+
+  static parseNotes(markdown: string, session?: WorkoutSession): PerformedExercise[] {
+    const prescribedNames = session ? this.collectPrescribed(session).map((entry) => entry.exercise.name) : [];
+    const performed: PerformedExercise[] = [];
+
+    for (const rawLine of markdown.split('\n')) {
+      const line = rawLine.trim().replace(this.LIST_MARKER_PATTERN, '');
+      if (!line || this.HEADING_PATTERN.test(line)) {
+        continue;
+      }
+
+      const skippedMatch = line.match(this.SKIPPED_PREFIX_PATTERN) ?? line.match(this.SKIPPED_SUFFIX_PATTERN);
+      if (skippedMatch) {
+        performed.push({ name: skippedMatch[1]!.trim(), raw: line, skipped: true });
+        continue;
+      }
+
+      const exercise = ExerciseParser.parseExercise(line);
+      if (exercise && exercise.name) {
+        performed.push({
+          name: exercise.name,
+          raw: line,
+          skipped: false,
+          sets: exercise.sets,
+          reps: exercise.reps,
+          load: exercise.load,
+          rpe: exercise.rpe,
+          rir: exercise.rir,
+          durationSeconds: exercise.durationSeconds,
+        });
+        continue;
+      }
+
+      // Free-form notes that open with a prescribed exercise name ("Lunges felt
+      // heavy") still count as a log entry for that exercise
+      const normalizedLine = this.normalizeName(line);
+      const mentioned = prescribedNames.find((name) => {
+        const normalizedName = this.normalizeName(name);
+        return normalizedName && normalizedLine.startsWith(normalizedName);
+      });
+      if (mentioned) {
+        performed.push({ name: mentioned, raw: line, skipped: false });
+      }
+    }
+
+    return performed;
+  }
+
+  static matchAgainstSession(performed: PerformedExercise[], session?: WorkoutSession): ExerciseLogRecord[] {
+    const prescribed = session ? this.collectPrescribed(session) : [];
+    const unmatched = [...performed];
+    const records: ExerciseLogRecord[] = [];
+
+    for (const entry of prescribed) {
+      const index = unmatched.findIndex((candidate) => this.namesMatch(candidate.name, entry.exercise.name));
+      if (index === -1) {
+        records.push({
+          exercise: entry.exercise.name,
+          status: 'not_logged',
+          section: entry.section,
+          prescribed: entry.exercise,
+        });
+        continue;
+      }
+
+      const [match] = unmatched.splice(index, 1);
+      records.push({
+        exercise: entry.exercise.name,
+        status: this.resolveStatus(entry.exercise, match!),
+        section: entry.section,
+        prescribed: entry.exercise,
+        performed: match,
+      });
+    }
+
+    for (const extra of unmatched) {
+      records.push({
+        exercise: extra.name,
+        status: extra.skipped ? 'skipped' : 'unplanned',
+        performed: extra,
+      });
+    }
+
+    return records;
+  }
+
+  static toLogRows(records: ExerciseLogRecord[], context: LogRowContext): string[][] {
+    return records.map((record) => [
+      context.date,
+      context.pageTitle,
+      context.sessionCell,
+      record.section ?? '',
+      record.exercise,
+      record.status,
+      this.formatNumber(record.prescribed?.sets),
+      record.prescribed?.amrap ? 'AMRAP' : record.prescribed?.reps ? ExerciseParser.formatReps(record.prescribed.reps) : '',
+      record.prescribed?.load?.raw ?? '',
+      this.formatNumber(record.performed?.sets),
+      record.performed?.reps ? ExerciseParser.formatReps(record.performed.reps) : '',
+      record.performed?.load?.raw ?? '',
+      this.formatNumber(record.performed?.rpe),
+      record.performed?.raw ?? '',
+    ]);
+  }
+
+  static normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/s\b/g, '');
+  }
+
+  private static namesMatch(a: string, b: string): boolean {
+    const left = this.normalizeName(a);
+    const right = this.normalizeName(b);
+    if (!left || !right) {
+      return false;
+    }
+    return left === right || left.includes(right) || right.includes(left);
+  }
+
+  private static resolveStatus(prescribed: ExercisePrescription, performed: PerformedExercise): LogStatus {
+    if (performed.skipped) {
+      return 'skipped';
+    }
+
+    const differs = (prescribed.sets !== undefined && performed.sets !== undefined && prescribed.sets !== performed.sets)
+      || (prescribed.reps !== undefined && performed.reps !== undefined
+        && (performed.reps.min < prescribed.reps.min || performed.reps.max > prescribed.reps.max))
+      || (prescribed.load?.value !== undefined && performed.load?.value !== undefined
+        && prescribed.load.value !== performed.load.value);
+
+    return differs ? 'modified' : 'completed';
+  }
+
+  private static collectPrescribed(session: WorkoutSession): PrescribedEntry[] {
+    const entries: PrescribedEntry[] = [];
+
+    for (const section of session.sections) {
+      for (const item of section.items ?? []) {
+        if (item.exercise && item.exercise.name) {
+          entries.push({ section: section.header, exercise: item.exercise });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private static formatNumber(value?: number): string {
+    return value !== undefined ? `${value}` : '';
+  }
+}
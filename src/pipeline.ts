@@ -0,0 +1,157 @@
+import fs from 'fs/promises';
+import type { OAuth2Client } from 'google-auth-library';
+import { GoogleSheetsAuth, type AuthScopeSet } from './auth';
+import { GoogleSheetsClient, type SheetInfo } from './sheets';
+import { NotFoundError, UsageError } from './cli';
+import type { Config } from './config';
+import { WorkoutHistory, type HistoryEntry, type NewHistoryEntry } from './history-store';
+import { SessionLocator } from './session-locator';
+import { createOutputSinks, type OutputSinkName, type PublishRequest, type PublishResult } from './sinks';
+
+/*
+ * Steps shared by the create-week, create-day and post-workout flows: finding
+ * the spreadsheet, choosing the tab and session cell, publishing to the
+ * configured outputs and recording history.
+ */
+
+export const DRY_RUN_OUTPUT_PATH = 'dry-run-output.json';
+
+export interface SheetContext<T extends GoogleSheetsClient = GoogleSheetsClient> {
+  sheetsClient: T;
+  sheetInfo: SheetInfo;
+}
+
+export interface OpenSheetOptions<T extends GoogleSheetsClient> {
+  scopes?: AuthScopeSet;
+  clientClass?: new (auth: OAuth2Client) => T;
+}
+
+export interface PublishOptions {
+  outputs: OutputSinkName[];
+  outputDir?: string;
+}
+
+export interface PublishSummary {
+  results: PublishResult[];
+  notionPageId?: string;
+}
+
+/**
+ * Returns the sheet owner and title from the options or config defaults,
+ * throwing a usage error listing `usage` when either is missing.
+ */
+export function requireSheetReference(
+  options: { sheetOwner?: string; sheetTitle?: string },
+  config: Config,
+  usage: string[]
+): { sheetOwner: string; sheetTitle: string } {
+  const sheetOwner = options.sheetOwner || config.defaults?.sheetOwner;
+  const sheetTitle = options.sheetTitle || config.defaults?.sheetTitle;
+
+  if (!sheetOwner || !sheetTitle) {
+    throw new UsageError(formatMissingArguments(usage));
+  }
+
+  return { sheetOwner, sheetTitle };
+}
+
+export function formatMissingArguments(usage: string[], note: string = 'Note: sheet-owner and sheet-title can be set as defaults in config.json'): string {
+  return `Missing required arguments. Please provide:\n\n${usage.map((line) => `  ${line}`).join('\n')}\n\n${note}`;
+}
+
+export async function openSheet<T extends GoogleSheetsClient = GoogleSheetsClient>(
+  config: Config,
+  sheetOwner: string,
+  sheetTitle: string,
+  options: OpenSheetOptions<T> = {}
+): Promise<SheetContext<T>> {
+  const auth = GoogleSheetsAuth.fromConfig(config, { scopes: options.scopes });
+  console.log('Authenticating with Google Sheets API...');
+  const oAuth2Client = await auth.authenticate();
+
+  const ClientClass = options.clientClass ?? (GoogleSheetsClient as unknown as new (auth: OAuth2Client) => T);
+  const sheetsClient = new ClientClass(oAuth2Client);
+
+  console.log(`Searching for sheet "${sheetTitle}" owned by ${sheetOwner}...`);
+  const sheetInfo = await sheetsClient.findSheetByOwnerAndTitle(sheetOwner, sheetTitle);
+
+  if (!sheetInfo) {
+    throw new NotFoundError(`Sheet "${sheetTitle}" owned by ${sheetOwner} not found`);
+  }
+
+  console.log(`Found sheet: ${sheetInfo.name} (${sheetInfo.id})`);
+  console.log(`URL: ${sheetInfo.url}`);
+
+  return { sheetsClient, sheetInfo };
+}
+
+export async function resolveTab(context: SheetContext, selector?: string, date?: Date): Promise<string | undefined> {
+  if (!selector) {
+    return undefined;
+  }
+
+  const tab = await context.sheetsClient.selectTab(context.sheetInfo.id, selector, date);
+  console.log(`Using tab: ${tab}`);
+  return tab;
+}
+
+/**
+ * The given session cell, or the one the configured layout places on `date`.
+ */
+export async function resolveSessionCell(
+  context: SheetContext,
+  config: Config,
+  sessionCell: string | undefined,
+  date: Date,
+  tab?: string
+): Promise<string> {
+  if (sessionCell) {
+    return sessionCell;
+  }
+
+  if (!config.layout) {
+    throw new UsageError('--date requires a "layout" section in config.json describing the sheet');
+  }
+
+  console.log(`Locating session cell for ${date.toDateString()}...`);
+  const locatedCell = await SessionLocator.findSessionCell(context.sheetsClient, context.sheetInfo.id, config.layout, date, tab, config.program);
+  if (!locatedCell) {
+    throw new NotFoundError(`No session found for ${date.toDateString()}`);
+  }
+  return locatedCell;
+}
+
+export async function writeDryRun(data: unknown): Promise<void> {
+  await fs.writeFile(DRY_RUN_OUTPUT_PATH, JSON.stringify(data, null, 2), 'utf8');
+  console.log(`Dry run complete. Output written to ${DRY_RUN_OUTPUT_PATH}`);
+}
+
+/**
+ * Publishes the request to every selected output, in order.
+ */
+export async function publishToOutputs(config: Config, request: PublishRequest, options: PublishOptions): Promise<PublishSummary> {
+  const sinks = await createOutputSinks(options.outputs, {
+    config,
+    outputDir: options.outputDir || config.output?.directory || 'output',
+    obsidianVault: config.output?.obsidianVault,
+    obsidianFolder: config.output?.obsidianFolder,
+    sessionDays: config.layout?.sessionDays,
+  });
+
+  const summary: PublishSummary = { results: [] };
+  for (const sink of sinks) {
+    console.log(`Publishing to ${sink.name} (${request.mode}): ${request.title}${request.icon ? ` with icon ${request.icon}` : ''}`);
+    const result = await sink.publish(request);
+    summary.results.push(result);
+    summary.notionPageId = result.notionPageId ?? summary.notionPageId;
+    console.log(`✅ Successfully ${result.action} ${sink.name} output: ${result.location}`);
+  }
+
+  return summary;
+}
+
+export async function recordHistory(config: Config, entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const historyEntry = await new WorkoutHistory(config.history?.path).upsert(entry);
+  console.log(`Recorded in workout history: ${historyEntry.id}`);
+  return historyEntry;
+}
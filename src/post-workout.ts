@@ -1,432 +1,257 @@
 import { Command } from 'commander';
-import { GoogleSheetsAuth } from './auth';
-import { GoogleSheetsClient } from './sheets';
-import { NotionClient } from './notion';
-import fs from 'fs/promises';
-import { Client } from '@notionhq/client';
-import { google } from 'googleapis';
-
-interface Config {
-  notion: {
-    token: string;
-    parentPageId: string;
-  };
-  defaults?: {
-    sheetOwner?: string;
-    sheetTitle?: string;
-  };
-}
-
-interface WorkoutContent {
-  overallNotes: string;
-  lowerBody: string;
-  upperBody: string;
-}
-
-async function loadConfig(): Promise<Config> {
-  const configContent = await fs.readFile('config.json', 'utf8');
-  return JSON.parse(configContent);
-}
+import { qualifyRange } from './sheets';
+import { NotionClient, type WorkoutSession } from './notion';
+import { WorkoutParser } from './parser';
+import { WorkoutHistory } from './history-store';
+import { formatDate, parseDateArgument } from './dates';
+import { LOG_SHEET_HEADER, PerformanceParser, type ExerciseLogRecord } from './performance-parser';
+import { loadConfig } from './config';
+import { PageTemplates } from './page-templates';
+import { blocksToMarkdown, type MarkdownOptions } from './blocks';
+import { NotFoundError, UsageError, addGlobalOptions, printResult, runProgram } from './cli';
+import { formatMissingArguments, openSheet, requireSheetReference, resolveSessionCell, resolveTab } from './pipeline';
+import { NotesSheetsClient, NotesWriter, formatWriteBackChange, parseWriteBackTargets, type WriteBackChange } from './write-back';
+import { splitNoteSections, type NoteSection, type NoteSectionRule } from './note-sections';
+
+const USAGE = [
+  '--session-cell <cell>     Cell reference (e.g., B2)',
+  '  or --date <date>        Date to locate via the "layout" in config.json',
+  '--notion-page <title>     Title of nested Notion page (optional with --date)',
+  '--sheet-owner <email>     Google Sheets owner email',
+  '--sheet-title <title>     Google Sheets document title',
+];
 
 class PostWorkoutClient extends NotionClient {
-  private notion: Client;
-  private parentPageId: string;
-
-  constructor(config: Config) {
-    super(config);
-    this.notion = new Client({
-      auth: config.notion.token,
-    });
-    this.parentPageId = config.notion.parentPageId;
-  }
-
-  async findNestedPage(pageTitle: string): Promise<string | null> {
-    try {
-      let hasMore = true;
-      let nextCursor: string | undefined;
-
-      while (hasMore) {
-        const response = await this.notion.blocks.children.list({
-          block_id: this.parentPageId,
-          page_size: 100,
-          start_cursor: nextCursor,
-        });
-
-        for (const block of response.results) {
-          if (block.type === 'child_page' && 'child_page' in block) {
-            if (block.child_page.title === pageTitle) {
-              return block.id;
-            }
-          }
-        }
-
-        hasMore = response.has_more;
-        nextCursor = response.next_cursor || undefined;
-      }
-
-      return null;
-    } catch (error) {
-      throw new Error(`Error searching for nested page "${pageTitle}": ${error}`);
-    }
-  }
-
   async extractPageContent(pageId: string): Promise<any[]> {
     try {
-      return await this.extractBlocksIteratively(pageId);
+      return await this.getPageBlocks(pageId);
     } catch (error) {
       throw new Error(`Error extracting content from page ${pageId}: ${error}`);
     }
   }
 
-  private async extractBlocksIteratively(rootBlockId: string): Promise<any[]> {
-    const allBlocks: any[] = [];
-
-    // Use a queue that stores parent block ID and depth
-    // Process one parent at a time to maintain correct document order
-    const queue: Array<{ blockId: string; depth: number }> = [
-      { blockId: rootBlockId, depth: 0 }
-    ];
-
-    while (queue.length > 0) {
-      const { blockId, depth } = queue.shift()!;
-
-      // Fetch all children of this block
-      const children: any[] = [];
-      let hasMore = true;
-      let nextCursor: string | undefined;
-
-      while (hasMore) {
-        const response = await this.notion.blocks.children.list({
-          block_id: blockId,
-          page_size: 100,
-          start_cursor: nextCursor,
-        });
-
-        for (const block of response.results) {
-          (block as any).depth = depth;
-          children.push(block);
-        }
-
-        hasMore = response.has_more;
-        nextCursor = response.next_cursor || undefined;
-      }
-
-      // For each child, add it to allBlocks and queue its children if any
-      // We need to insert children immediately after their parent in the output
-      // To do this correctly, we'll collect blocks with their children inline
-      for (const child of children) {
-        allBlocks.push(child);
-
-        if (child.has_children) {
-          // Recursively fetch and insert this child's descendants right here
-          const descendants = await this.extractDescendants(child.id, depth + 1);
-          allBlocks.push(...descendants);
-        }
-      }
-    }
-
-    return allBlocks;
+  convertBlocksToMarkdown(blocks: any[], options: MarkdownOptions = {}): string {
+    // Video embeds are part of the prescription, not the notes
+    return blocksToMarkdown(blocks, { media: false, ...options });
   }
 
-  private async extractDescendants(blockId: string, depth: number): Promise<any[]> {
-    const descendants: any[] = [];
-
-    let hasMore = true;
-    let nextCursor: string | undefined;
+  /**
+   * What was written on the page, split into note sections and as plain text
+   * for the performed-set parser. The blocks generated from the prescribed
+   * session are left out, so unchecked prescription lines are not read as
+   * notes; without the session the whole page is used.
+   */
+  extractNotes(blocks: any[], session: WorkoutSession | undefined, rules?: NoteSectionRule[]): PageNotes {
+    const noteBlocks = session ? this.removeWorkoutBlocks(blocks, session) : blocks;
 
-    while (hasMore) {
-      const response = await this.notion.blocks.children.list({
-        block_id: blockId,
-        page_size: 100,
-        start_cursor: nextCursor,
-      });
-
-      for (const block of response.results) {
-        (block as any).depth = depth;
-        descendants.push(block);
-
-        if (block.has_children) {
-          const childDescendants = await this.extractDescendants(block.id, depth + 1);
-          descendants.push(...childDescendants);
-        }
-      }
-
-      hasMore = response.has_more;
-      nextCursor = response.next_cursor || undefined;
-    }
+    console.log('Converting blocks to markdown...');
+    const markdown = this.convertBlocksToMarkdown(noteBlocks);
 
-    return descendants;
+    console.log('Splitting content by headings...');
+    return {
+      sections: splitNoteSections(markdown, rules),
+      // Performed sets are parsed without Markdown formatting around the names
+      plainNotes: this.convertBlocksToMarkdown(noteBlocks, { annotations: false }),
+    };
   }
+}
 
-  convertBlocksToMarkdown(blocks: any[]): string {
-    const markdownLines: string[] = [];
-
-    for (const block of blocks) {
-      if (block.type === 'embed') {
-        continue;
-      }
-
-      const depth = block.depth || 0;
-      const indent = '  '.repeat(depth);
-
-      switch (block.type) {
-        case 'heading_1':
-          if (block.heading_1?.rich_text?.[0]?.text?.content) {
-            markdownLines.push(`# ${block.heading_1.rich_text[0].text.content}`);
-          }
-          break;
-
-        case 'heading_2':
-          if (block.heading_2?.rich_text?.[0]?.text?.content) {
-            markdownLines.push(`## ${block.heading_2.rich_text[0].text.content}`);
-          }
-          break;
-
-        case 'heading_3':
-          if (block.heading_3?.rich_text?.[0]?.text?.content) {
-            markdownLines.push(`### ${block.heading_3.rich_text[0].text.content}`);
-          }
-          break;
-
-        case 'paragraph':
-          if (block.paragraph?.rich_text?.[0]?.text?.content) {
-            markdownLines.push(`${indent}${block.paragraph.rich_text[0].text.content}`);
-          } else {
-            markdownLines.push('');
-          }
-          break;
-
-        case 'bulleted_list_item':
-          if (block.bulleted_list_item?.rich_text?.[0]?.text?.content) {
-            markdownLines.push(`${indent}- ${block.bulleted_list_item.rich_text[0].text.content}`);
-          }
-          break;
-
-        case 'numbered_list_item':
-          if (block.numbered_list_item?.rich_text?.[0]?.text?.content) {
-            markdownLines.push(`${indent}1. ${block.numbered_list_item.rich_text[0].text.content}`);
-          }
-          break;
-      }
-    }
+interface PageNotes {
+  sections: NoteSection[];
+  plainNotes: string;
+}
 
-    return markdownLines.join('\n');
+function printLogRecords(records: ExerciseLogRecord[]): void {
+  if (records.length === 0) {
+    console.log('\nNo performed exercises found');
+    return;
   }
 
-  splitContentByWorkoutSections(markdownContent: string): WorkoutContent {
-    const lines = markdownContent.split('\n');
-    const overallLines: string[] = [];
-    const lowerBodyLines: string[] = [];
-    const upperBodyLines: string[] = [];
-    let currentSection: 'none' | 'overall' | 'lower' | 'upper' = 'none';
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      if (trimmedLine.match(/^#{1,6}\s*overall/i) || trimmedLine.match(/^overall\b/i)) {
-        currentSection = 'overall';
-        if (overallLines.length === 0) {
-          overallLines.push('### Overall Notes:');
-        }
-        continue;
-      }
-
-      if (/^###\s*lower body\b/i.test(trimmedLine)) {
-        currentSection = 'lower';
-        lowerBodyLines.push('### Lower Body:');
-        continue;
-      } else if (/^###\s*upper body\b/i.test(trimmedLine)) {
-        currentSection = 'upper';
-        upperBodyLines.push('### Upper Body:');
-        continue;
-      }
-
-      switch (currentSection) {
-        case 'overall':
-          overallLines.push(line);
-          break;
-        case 'lower':
-          lowerBodyLines.push(line);
-          break;
-        case 'upper':
-          upperBodyLines.push(line);
-          break;
-      }
-    }
-
-    return {
-      overallNotes: overallLines.join('\n').trim(),
-      lowerBody: lowerBodyLines.join('\n').trim(),
-      upperBody: upperBodyLines.join('\n').trim(),
-    };
+  console.log('\n### Performed vs Prescribed:');
+  for (const record of records) {
+    const details = record.performed?.raw ? ` — ${record.performed.raw}` : '';
+    console.log(`- [${record.status}] ${record.exercise}${details}`);
   }
 }
 
-class ExtendedGoogleSheetsClient extends GoogleSheetsClient {
-  private sheets: any;
+export interface PostWorkoutOptions {
+  sessionCell?: string;
+  date?: string;
+  notionPage?: string;
+  test?: boolean;
+  sheetOwner?: string;
+  sheetTitle?: string;
+  tab?: string;
+  logTab?: string;
+  // Commander sets this to false for --no-log
+  log?: boolean;
+  // Comma-separated write-back targets (defaults to writeBack.targets, then append-note)
+  target?: string;
+  // Show what would be written without writing it
+  preview?: boolean;
+  profile?: string;
+}
 
-  constructor(auth: any) {
-    super(auth);
-    this.sheets = google.sheets({ version: 'v4', auth });
-  }
+export interface PostWorkoutResult {
+  notionPageTitle: string;
+  // Unset in test mode
+  sessionCell?: string;
+  logRowCount: number;
+  // Empty in test mode
+  changes: WriteBackChange[];
+  preview: boolean;
+}
 
-  async addCommentToCell(spreadsheetId: string, cellReference: string, comment: string): Promise<void> {
-    try {
-      await this.sheets.spreadsheets.batchUpdate({
-        spreadsheetId,
-        resource: {
-          requests: [
-            {
-              updateCells: {
-                rows: [
-                  {
-                    values: [
-                      {
-                        note: comment
-                      }
-                    ]
-                  }
-                ],
-                fields: 'note',
-                range: {
-                  sheetId: 0,
-                  startRowIndex: this.getCellRowIndex(cellReference),
-                  endRowIndex: this.getCellRowIndex(cellReference) + 1,
-                  startColumnIndex: this.getCellColumnIndex(cellReference),
-                  endColumnIndex: this.getCellColumnIndex(cellReference) + 1,
-                }
-              }
-            }
-          ],
-        },
-      });
-    } catch (error) {
-      throw new Error(`Error adding comment to cell ${cellReference}: ${error}`);
-    }
+/**
+ * Reads the post-workout notes from the day's Notion page and writes them back
+ * to the session cell and the log tab. Shared by the `post` command
+ * and the scheduler.
+ */
+export async function postWorkout(options: PostWorkoutOptions): Promise<PostWorkoutResult> {
+  const logTab = options.logTab ?? 'Log';
+  const config = await loadConfig({ profile: options.profile });
+  const targets = parseWriteBackTargets(options.target ?? config.writeBack?.targets);
+
+  const { sheetOwner, sheetTitle } = requireSheetReference(options, config, USAGE);
+  const sessionDate = options.date ? parseDateArgument(options.date) : undefined;
+  const notionPageTitle = options.notionPage
+    || (sessionDate ? PageTemplates.fromConfig(config).render('day', { date: sessionDate, sheetTitle, sheetOwner }).title : undefined);
+
+  if (!notionPageTitle || (!options.sessionCell && !sessionDate)) {
+    throw new UsageError(formatMissingArguments(USAGE));
   }
 
-  private getCellRowIndex(cellReference: string): number {
-    const match = cellReference.match(/\d+/);
-    return match ? parseInt(match[0]) - 1 : 0;
+  if (!options.sessionCell && !config.layout) {
+    throw new UsageError('--date requires a "layout" section in config.json describing the sheet');
   }
 
-  private getCellColumnIndex(cellReference: string): number {
-    const match = cellReference.match(/[A-Z]+/);
-    if (!match) return 0;
+  console.log('Connecting to Notion...');
+  const postWorkoutClient = new PostWorkoutClient(config);
 
-    const letters = match[0];
-    let result = 0;
+  console.log(`Searching for nested page: ${notionPageTitle}`);
+  const pageId = await postWorkoutClient.findNestedPage(notionPageTitle);
 
-    for (let i = 0; i < letters.length; i++) {
-      result = result * 26 + (letters.charCodeAt(i) - 64);
-    }
-
-    return result - 1;
+  if (!pageId) {
+    throw new NotFoundError(`Notion page "${notionPageTitle}" not found in parent page`);
   }
-}
 
-async function main() {
-  const program = new Command();
+  console.log(`Found page: ${pageId}`);
+  console.log('Extracting page content...');
+  const blocks = await postWorkoutClient.extractPageContent(pageId);
+  console.log(postWorkoutClient.requestSummary());
 
-  program
-    .name('post-workout')
-    .description('Post workout content from Notion page to Google Sheets as comments')
-    .option('--session-cell <cell>', 'Cell reference (e.g., B2)')
-    .option('--notion-page <title>', 'Title of the nested Notion page')
-    .option('--test', 'Test mode - output content without posting to sheets')
-    .option('--sheet-owner <email>', 'Google Sheets owner email')
-    .option('--sheet-title <title>', 'Google Sheets document title')
-    .parse();
-
-  const options = program.opts();
-  const cellId = options.sessionCell;
-
-  try {
-    const config = await loadConfig();
-
-    const sheetOwner = options.sheetOwner || config.defaults?.sheetOwner;
-    const sheetTitle = options.sheetTitle || config.defaults?.sheetTitle;
-    const notionPageTitle = options.notionPage;
-
-    if (!sheetOwner || !sheetTitle || !notionPageTitle || !cellId) {
-      console.error('Missing required arguments. Please provide:\n');
-      console.error('  --session-cell <cell>     Cell reference (e.g., B2)');
-      console.error('  --notion-page <title>     Title of nested Notion page');
-      console.error('  --sheet-owner <email>     Google Sheets owner email');
-      console.error('  --sheet-title <title>     Google Sheets document title\n');
-      console.error('Note: sheet-owner and sheet-title can be set as defaults in config.json');
-      process.exit(1);
-    }
-
-    console.log('Connecting to Notion...');
-    const postWorkoutClient = new PostWorkoutClient(config);
+  // Prefer the session exactly as it was parsed when the page was created
+  const [historyEntry] = await new WorkoutHistory(config.history?.path).list({ kind: 'day', pageTitle: notionPageTitle, limit: 1 });
+  let prescribedSession: WorkoutSession | undefined = historyEntry?.sessions[0];
 
-    console.log(`Searching for nested page: ${notionPageTitle}`);
-    const pageId = await postWorkoutClient.findNestedPage(notionPageTitle);
-
-    if (!pageId) {
-      console.error(`Notion page "${notionPageTitle}" not found in parent page`);
-      process.exit(1);
+  if (options.test) {
+    if (!prescribedSession) {
+      console.log(`No history entry for "${notionPageTitle}", reading the whole page as notes`);
     }
+    const { sections, plainNotes } = postWorkoutClient.extractNotes(blocks, prescribedSession, config.writeBack?.sections);
 
-    console.log(`Found page: ${pageId}`);
-    console.log('Extracting page content...');
-    const blocks = await postWorkoutClient.extractPageContent(pageId);
-
-    console.log('Converting blocks to markdown...');
-    const markdown = postWorkoutClient.convertBlocksToMarkdown(blocks);
-
-    console.log('Splitting content by workout sections...');
-    const workoutContent = postWorkoutClient.splitContentByWorkoutSections(markdown);
-
-    if (options.test) {
-      console.log('\n=== TEST MODE OUTPUT ===');
-      if (workoutContent.overallNotes) {
-        console.log(`\n${workoutContent.overallNotes}`);
-      }
-      if (workoutContent.lowerBody) {
-        console.log(`\n${workoutContent.lowerBody}`);
-      }
-      if (workoutContent.upperBody) {
-        console.log(`\n${workoutContent.upperBody}`);
-      }
-      console.log('\n=== End Test Output ===');
-      return;
+    console.log('\n=== TEST MODE OUTPUT ===');
+    for (const section of sections) {
+      console.log(`\n### ${section.name}:\n${section.content}`);
     }
+    const performed = PerformanceParser.parseNotes(plainNotes, prescribedSession);
+    printLogRecords(PerformanceParser.matchAgainstSession(performed, prescribedSession));
+    console.log('\n=== End Test Output ===');
+    return { notionPageTitle, logRowCount: 0, changes: [], preview: false };
+  }
 
-    console.log('Authenticating with Google Sheets API...');
-    const auth = new GoogleSheetsAuth();
-    const oAuth2Client = await auth.authenticate();
+  // Notes and log rows are written back, so this needs spreadsheet write access
+  // (and Drive access to comment)
+  const sheet = await openSheet(config, sheetOwner, sheetTitle, {
+    scopes: targets.includes('comment') ? 'comment' : 'write',
+    clientClass: NotesSheetsClient,
+  });
+  const { sheetsClient, sheetInfo } = sheet;
+  const tab = await resolveTab(sheet, options.tab ?? (options.sessionCell ? undefined : config.layout?.tab), sessionDate);
+  const cellId = await resolveSessionCell(sheet, config, options.sessionCell, sessionDate ?? new Date(), tab);
+
+  if (!prescribedSession) {
+    console.log(`No history entry for "${notionPageTitle}", re-reading cell ${cellId} for the prescription...`);
+    const data = await sheetsClient.getCellRange(sheetInfo.id, cellId, tab);
+    const cellContent = data[0]?.[0];
+    prescribedSession = cellContent ? WorkoutParser.parseSingleCell(cellContent) : undefined;
+  }
+  const { sections, plainNotes } = postWorkoutClient.extractNotes(blocks, prescribedSession, config.writeBack?.sections);
+
+  const writer = new NotesWriter(sheetsClient, {
+    spreadsheetId: sheetInfo.id,
+    cell: cellId,
+    tab,
+    date: sessionDate ?? new Date(),
+    pageTitle: notionPageTitle,
+  }, config.writeBack);
+
+  const changes = await writer.plan(targets, sections);
+  for (const change of changes) {
+    console.log(`\n${formatWriteBackChange(change)}`);
+  }
+
+  if (options.preview) {
+    console.log('\nPreview only, nothing was written');
+    return { notionPageTitle, sessionCell: cellId, logRowCount: 0, changes, preview: true };
+  }
 
-    const sheetsClient = new ExtendedGoogleSheetsClient(oAuth2Client);
+  for (const change of changes) {
+    if (change.before !== change.after) {
+      console.log(`Writing ${change.target} to ${change.location}...`);
+      await writer.apply(change);
+    }
+  }
 
-    console.log(`Searching for sheet "${sheetTitle}" owned by ${sheetOwner}...`);
-    const sheetInfo = await sheetsClient.findSheetByOwnerAndTitle(sheetOwner, sheetTitle);
+  let logRowCount = 0;
+  if (options.log !== false) {
+    const performed = PerformanceParser.parseNotes(plainNotes, prescribedSession);
+    const records = PerformanceParser.matchAgainstSession(performed, prescribedSession);
+    const rows = PerformanceParser.toLogRows(records, {
+      date: formatDate(sessionDate ?? new Date(), 'YYYY-MM-DD'),
+      pageTitle: notionPageTitle,
+      sessionCell: qualifyRange(cellId, tab),
+    });
 
-    if (!sheetInfo) {
-      console.error('Sheet not found');
-      process.exit(1);
+    if (rows.length > 0) {
+      console.log(`Writing ${rows.length} log rows to "${logTab}" tab...`);
+      await sheetsClient.ensureSheetTab(sheetInfo.id, logTab, LOG_SHEET_HEADER);
+      await sheetsClient.appendRows(sheetInfo.id, logTab, rows);
+      logRowCount = rows.length;
+    } else {
+      console.log('No performed exercises found to log');
     }
+  }
 
-    console.log(`Found sheet: ${sheetInfo.name} (${sheetInfo.id})`);
+  console.log('✅ Successfully posted workout content to the sheet');
 
-    const combinedComment = [
-      workoutContent.overallNotes,
-      workoutContent.lowerBody,
-      workoutContent.upperBody,
-    ]
-      .filter(Boolean)
-      .join('\n\n');
+  return { notionPageTitle, sessionCell: cellId, logRowCount, changes, preview: false };
+}
 
-    console.log(`Adding workout comment to cell ${cellId}...`);
-    await sheetsClient.addCommentToCell(sheetInfo.id, cellId, combinedComment);
+export function postWorkoutCommand(name: string = 'post'): Command {
+  const command = new Command(name);
 
-    console.log('✅ Successfully posted workout content as comments');
+  command
+    .description('Post workout content from a Notion page back to Google Sheets')
+    .option('--session-cell <cell>', 'Cell reference (e.g., B2)')
+    .option('--date <date>', 'Find the session cell and page for a date (today, yesterday, YYYY-MM-DD, M/D/YYYY)')
+    .option('--notion-page <title>', 'Title of the nested Notion page (defaults to the day page title for --date)')
+    .option('--test', 'Test mode - output content without posting to sheets')
+    .option('--sheet-owner <email>', 'Google Sheets owner email')
+    .option('--sheet-title <title>', 'Google Sheets document title')
+    .option('--tab <tab>', 'Tab holding the session cell (name, or "date:<format>" for the latest dated tab)')
+    .option('--log-tab <name>', 'Spreadsheet tab that receives performed-set log rows', 'Log')
+    .option('--no-log', 'Do not write performed-set log rows')
+    .option('--target <targets>', 'Where to write the notes, comma-separated (note|append-note|column|comment|log-row)')
+    .option('--preview', 'Show the changes to the sheet without writing them')
+    .action(async (_, actionCommand: Command) => {
+      const result = await postWorkout(actionCommand.optsWithGlobals());
+      printResult(actionCommand, result);
+    });
 
-  } catch (error) {
-    console.error('Error:', error);
-    process.exit(1);
-  }
+  return command;
 }
 
-main();
+if (import.meta.main) {
+  runProgram(addGlobalOptions(postWorkoutCommand('post-workout')));
+}
@@ -0,0 +1,123 @@
+import { ConfigError } from './config';
+import { addDays, parseDateArgument, startOfDay } from './dates';
+
+export interface ProgramBreak {
+  // First and last day of the break (YYYY-MM-DD)
+  start: string;
+  end: string;
+  label?: string;
+}
+
+export interface ProgramConfig {
+  // First day of week 1 (YYYY-MM-DD); each program week is the 7 days from here
+  startDate?: string;
+  // Weeks that start during a break are skipped and do not advance the number
+  breaks?: ProgramBreak[];
+  deloadWeeks?: number[];
+  // Every Nth week is a deload (e.g. 4 for weeks 4, 8, 12...)
+  deloadEvery?: number;
+}
+
+export interface ProgramWeek {
+  // Unset for break weeks
+  weekNumber?: number;
+  startDate: Date;
+  deload: boolean;
+  breakLabel?: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Derives week numbers from the program start date, so rerunning create-week
+ * for the same week always yields the same number.
+ */
+export class ProgramCalendar {
+  private startDate: Date;
+  private breaks: Array<{ start: Date; end: Date; label?: string }>;
+  private deloadWeeks: Set<number>;
+  private deloadEvery?: number;
+
+  constructor(program: ProgramConfig & { startDate: string }) {
+    this.startDate = startOfDay(parseDateArgument(program.startDate));
+    this.breaks = (program.breaks ?? []).map((programBreak, index) => {
+      const start = startOfDay(parseDateArgument(programBreak.start));
+      const end = startOfDay(parseDateArgument(programBreak.end));
+      if (end < start) {
+        throw new ConfigError(`program.breaks[${index}] ends before it starts`);
+      }
+      return { start, end, label: programBreak.label };
+    });
+    this.deloadWeeks = new Set(program.deloadWeeks ?? []);
+    this.deloadEvery = program.deloadEvery;
+  }
+
+  /**
+   * The calendar for the configured program, or null when no start date is
+   * set and week numbers come from `data.currentWeekNumber`.
+   */
+  static fromConfig(program?: ProgramConfig): ProgramCalendar | null {
+    return program?.startDate ? new ProgramCalendar({ ...program, startDate: program.startDate }) : null;
+  }
+
+  /**
+   * The program week containing `date`, or null before the program starts.
+   */
+  weekAt(date: Date): ProgramWeek | null {
+    const weeks = this.weeksUntil(date);
+    return weeks[weeks.length - 1] ?? null;
+  }
+
+  /**
+   * The first day of program week `weekNumber`.
+   */
+  startOf(weekNumber: number): Date {
+    if (!Number.isInteger(weekNumber) || weekNumber < 1) {
+      throw new Error(`Invalid week number ${weekNumber}`);
+    }
+
+    let week = 0;
+    for (let index = 0; ; index++) {
+      const startDate = addDays(this.startDate, index * 7);
+      if (!this.findBreak(startDate) && ++week === weekNumber) {
+        return startDate;
+      }
+    }
+  }
+
+  isDeload(weekNumber: number): boolean {
+    return this.deloadWeeks.has(weekNumber) || (!!this.deloadEvery && weekNumber % this.deloadEvery === 0);
+  }
+
+  /**
+   * Every week from the start of the program up to and including the week
+   * containing `until`, breaks included.
+   */
+  weeksUntil(until: Date): ProgramWeek[] {
+    const elapsedDays = Math.round((startOfDay(until).getTime() - this.startDate.getTime()) / MS_PER_DAY);
+    return elapsedDays < 0 ? [] : this.listWeeks(Math.floor(elapsedDays / 7) + 1);
+  }
+
+  private listWeeks(count: number): ProgramWeek[] {
+    const weeks: ProgramWeek[] = [];
+    let weekNumber = 0;
+
+    for (let index = 0; index < count; index++) {
+      const startDate = addDays(this.startDate, index * 7);
+      const programBreak = this.findBreak(startDate);
+
+      if (programBreak) {
+        weeks.push({ startDate, deload: false, breakLabel: programBreak.label ?? 'Break' });
+      } else {
+        weekNumber++;
+        weeks.push({ weekNumber, startDate, deload: this.isDeload(weekNumber) });
+      }
+    }
+
+    return weeks;
+  }
+
+  private findBreak(date: Date): { label?: string } | undefined {
+    return this.breaks.find((programBreak) => date >= programBreak.start && date <= programBreak.end);
+  }
+}
@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import { randomUUID } from 'crypto';
+import type { ScheduleTask } from './config';
+
+export const RUN_LOG_FILE_PATH = 'schedule-log.jsonl';
+
+export interface RunLogEntry {
+  id: string;
+  rule: string;
+  task: ScheduleTask;
+  // What the run worked on, e.g. the session date; used to skip repeated work
+  targetKey: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  reason?: string;
+  error?: string;
+  result?: unknown;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export type NewRunLogEntry = Omit<RunLogEntry, 'id'>;
+
+export class RunLog {
+  private filePath: string;
+
+  constructor(filePath: string = RUN_LOG_FILE_PATH) {
+    this.filePath = filePath;
+  }
+
+  async record(entry: NewRunLogEntry): Promise<RunLogEntry> {
+    const stored: RunLogEntry = { id: randomUUID(), ...entry };
+    await fs.appendFile(this.filePath, `${JSON.stringify(stored)}\n`, 'utf8');
+    return stored;
+  }
+
+  async hasSucceeded(rule: string, targetKey: string): Promise<boolean> {
+    const entries = await this.readAll();
+    return entries.some((entry) => entry.rule === rule && entry.targetKey === targetKey && entry.status === 'succeeded');
+  }
+
+  async list(limit?: number): Promise<RunLogEntry[]> {
+    // Newest first
+    const entries = (await this.readAll()).reverse();
+    return limit !== undefined ? entries.slice(0, limit) : entries;
+  }
+
+  private async readAll(): Promise<RunLogEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Error reading run log from ${this.filePath}: ${error}`);
+    }
+
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as RunLogEntry;
+        } catch (error) {
+          throw new Error(`Invalid run log entry on line ${index + 1} of ${this.filePath}: ${error}`);
+        }
+      });
+  }
+}
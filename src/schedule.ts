@@ -0,0 +1,112 @@
+import { Command } from 'commander';
+import { ConfigError, loadConfig } from './config';
+import { Scheduler } from './scheduler';
+import type { RunLogEntry } from './run-log';
+import { EXIT_CODES, addGlobalOptions, parseWholeNumberOption, printResult, runProgram, type GlobalOptions } from './cli';
+
+function formatRunLine(entry: RunLogEntry): string {
+  const started = entry.startedAt.replace('T', ' ').slice(0, 16);
+  const details = (entry.reason ?? entry.error ?? '').split('\n')[0];
+  return [
+    started,
+    entry.status.padEnd(9),
+    entry.rule.padEnd(16),
+    entry.targetKey.padEnd(20),
+    details,
+  ].join('  ').trimEnd();
+}
+
+async function createScheduler(profile?: string): Promise<Scheduler> {
+  const config = await loadConfig({ profile });
+  return new Scheduler(config, { profile });
+}
+
+export function scheduleCommand(name: string = 'schedule'): Command {
+  const command = new Command(name);
+
+  command
+    .description('Run create-day, create-week and post-workout automatically from the "schedule" rules in config.json');
+
+  command
+    .command('start', { isDefault: true })
+    .description('Keep running and execute rules at their scheduled times')
+    .action(async (_, actionCommand: Command) => {
+      const scheduler = await createScheduler(actionCommand.optsWithGlobals<GlobalOptions>().profile);
+      const rules = scheduler.listRules();
+
+      if (rules.length === 0) {
+        throw new ConfigError('No rules in "schedule.rules" in config.json');
+      }
+
+      const shutdown = () => {
+        console.log(scheduler.isRunning ? 'Stopping after the current run...' : 'Stopping scheduler');
+        scheduler.stop();
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+
+      console.log(`Scheduler started with ${rules.length} rules:`);
+      for (const { rule, schedule } of rules) {
+        console.log(`  ${rule.name} (${rule.task}) next at ${schedule.next(new Date())?.toLocaleString() ?? 'never'}`);
+      }
+
+      await scheduler.start();
+    });
+
+  command
+    .command('list')
+    .description('List rules and their next run times')
+    .action(async (_, actionCommand: Command) => {
+      const scheduler = await createScheduler(actionCommand.optsWithGlobals<GlobalOptions>().profile);
+      const rules = scheduler.listRules().map(({ rule, schedule }) => ({ ...rule, next: schedule.next(new Date()) }));
+
+      printResult(actionCommand, rules, () => {
+        if (rules.length === 0) {
+          console.log('No schedule rules configured');
+          return;
+        }
+
+        for (const rule of rules) {
+          console.log(`${rule.name.padEnd(16)}  ${rule.task.padEnd(12)}  ${rule.cron.padEnd(14)}  next: ${rule.next?.toLocaleString() ?? 'never'}`);
+        }
+      });
+    });
+
+  command
+    .command('run <rule>')
+    .description('Run one rule now')
+    .option('--force', 'Run even if the work was already done')
+    .action(async (name: string, options, actionCommand: Command) => {
+      const scheduler = await createScheduler(actionCommand.optsWithGlobals<GlobalOptions>().profile);
+      const entry = await scheduler.runRule(scheduler.getRule(name), new Date(), options.force);
+
+      printResult(actionCommand, entry);
+      if (entry.status === 'failed') {
+        process.exitCode = EXIT_CODES.failure;
+      }
+    });
+
+  command
+    .command('log')
+    .description('Show recent scheduled runs, newest first')
+    .option('--limit <number>', 'Maximum number of runs to show', '20')
+    .action(async (options, actionCommand: Command) => {
+      const scheduler = await createScheduler(actionCommand.optsWithGlobals<GlobalOptions>().profile);
+      const entries = await scheduler.listRuns(parseWholeNumberOption('limit', options.limit, 0));
+
+      printResult(actionCommand, entries, () => {
+        if (entries.length === 0) {
+          console.log('No scheduled runs recorded');
+          return;
+        }
+
+        entries.forEach((entry) => console.log(formatRunLine(entry)));
+      });
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(scheduleCommand()));
+}
@@ -0,0 +1,263 @@
+import { ConfigError, type Config, type DefaultsConfig, type ScheduleRule } from './config';
+import { CronSchedule } from './cron';
+import { RunLog, type RunLogEntry } from './run-log';
+import { WorkoutHistory } from './history-store';
+import { addDays, formatDate, nextWeekday, parseDateArgument } from './dates';
+import { createDay } from './create-day';
+import { createWeek } from './create-week';
+import { postWorkout } from './post-workout';
+import { NotFoundError } from './cli';
+import { ProgramCalendar } from './program-calendar';
+import { PageTemplates } from './page-templates';
+
+export interface SchedulerOptions {
+  profile?: string;
+}
+
+export interface ScheduledRule {
+  rule: ScheduleRule;
+  schedule: CronSchedule;
+}
+
+interface RunTarget {
+  key: string;
+  // ISO date handed to create-day and post-workout
+  date?: string;
+  // Monday of the week handed to create-week
+  weekStart?: Date;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Runs the `schedule.rules` from config at their cron times by calling the
+ * same flows as the create-day, create-week and post-workout commands. Every
+ * run is written to the run log, and work that already succeeded for the
+ * same target (or whose page already exists) is skipped.
+ */
+export class Scheduler {
+  private rules: ScheduledRule[];
+  private runLog: RunLog;
+  private history: WorkoutHistory;
+  private calendar: ProgramCalendar | null;
+  private templates: PageTemplates;
+  private defaults?: DefaultsConfig;
+  private profile?: string;
+  private stopping = false;
+  private running = false;
+  private wake?: () => void;
+
+  constructor(config: Config, options: SchedulerOptions = {}) {
+    const rules = config.schedule?.rules ?? [];
+    const names = new Set<string>();
+    for (const rule of rules) {
+      if (names.has(rule.name)) {
+        throw new ConfigError(`Duplicate schedule rule name "${rule.name}"`);
+      }
+      names.add(rule.name);
+    }
+
+    this.rules = rules.map((rule) => ({ rule, schedule: new CronSchedule(rule.cron) }));
+    this.runLog = new RunLog(config.schedule?.logPath);
+    this.history = new WorkoutHistory(config.history?.path);
+    this.calendar = ProgramCalendar.fromConfig(config.program);
+    this.templates = PageTemplates.fromConfig(config);
+    this.defaults = config.defaults;
+    this.profile = options.profile;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  listRules(): ScheduledRule[] {
+    return this.rules;
+  }
+
+  getRule(name: string): ScheduleRule {
+    const scheduled = this.rules.find(({ rule }) => rule.name === name);
+    if (!scheduled) {
+      const names = this.rules.map(({ rule }) => rule.name);
+      throw new NotFoundError(`No schedule rule named "${name}"${names.length > 0 ? `. Rules: ${names.join(', ')}` : ''}`);
+    }
+    return scheduled.rule;
+  }
+
+  async listRuns(limit?: number): Promise<RunLogEntry[]> {
+    return await this.runLog.list(limit);
+  }
+
+  /**
+   * Runs one rule as if it fired at `now`. With `force`, runs even when the
+   * work is already done.
+   */
+  async runRule(rule: ScheduleRule, now: Date = new Date(), force: boolean = false): Promise<RunLogEntry> {
+    const target = this.getTarget(rule, now);
+    const startedAt = new Date().toISOString();
+    const base = { rule: rule.name, task: rule.task, targetKey: target.key, startedAt };
+
+    if (!force) {
+      let reason: string | null;
+      try {
+        reason = await this.findCompletedWork(rule, target);
+      } catch (error) {
+        console.error(`[${rule.name}] Could not check for completed work:`, error);
+        return await this.runLog.record({ ...base, status: 'failed', error: `${error}`, finishedAt: new Date().toISOString() });
+      }
+      if (reason) {
+        console.log(`[${rule.name}] Skipping ${target.key}: ${reason}`);
+        return await this.runLog.record({ ...base, status: 'skipped', reason, finishedAt: new Date().toISOString() });
+      }
+    }
+
+    console.log(`[${rule.name}] Running ${rule.task} for ${target.key}...`);
+    this.running = true;
+    try {
+      const result = await this.execute(rule, target);
+      console.log(`[${rule.name}] ✅ Finished ${rule.task} for ${target.key}`);
+      return await this.runLog.record({ ...base, status: 'succeeded', result, finishedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error(`[${rule.name}] ${rule.task} failed:`, error);
+      return await this.runLog.record({ ...base, status: 'failed', error: `${error}`, finishedAt: new Date().toISOString() });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Runs every rule due in the minutes after `from` up to and including `to`,
+   * so minutes spent on a long run are not missed. A rule whose run cannot be
+   * checked or recorded, say because the run log or history is unreadable, is
+   * logged and the other rules still run.
+   */
+  async runDue(from: Date, to: Date): Promise<void> {
+    let minute = Math.floor(from.getTime() / MS_PER_MINUTE) * MS_PER_MINUTE + MS_PER_MINUTE;
+
+    for (; minute <= to.getTime() && !this.stopping; minute += MS_PER_MINUTE) {
+      const firedAt = new Date(minute);
+      for (const { rule, schedule } of this.rules) {
+        if (schedule.matches(firedAt) && !this.stopping) {
+          try {
+            await this.runRule(rule, firedAt);
+          } catch (error) {
+            console.error(`[${rule.name}] Run failed:`, error);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks the rules once a minute until stop() is called.
+   */
+  async start(): Promise<void> {
+    let lastChecked = new Date();
+
+    while (!this.stopping) {
+      await this.sleep(MS_PER_MINUTE - (Date.now() % MS_PER_MINUTE));
+      const now = new Date();
+      await this.runDue(lastChecked, now);
+      lastChecked = now;
+    }
+  }
+
+  stop(): void {
+    this.stopping = true;
+    this.wake?.();
+  }
+
+  private getTarget(rule: ScheduleRule, now: Date): RunTarget {
+    if (rule.task === 'create-week') {
+      const weekStart = nextWeekday(now, 1);
+      return { key: `week of ${formatDate(weekStart, 'YYYY-MM-DD')}`, weekStart };
+    }
+
+    const relativeDate = rule.date ?? (rule.task === 'post-workout' ? 'yesterday' : 'today');
+    const date = formatDate(parseDateArgument(relativeDate, now), 'YYYY-MM-DD');
+    return { key: date, date };
+  }
+
+  private async findCompletedWork(rule: ScheduleRule, target: RunTarget): Promise<string | null> {
+    if (await this.runLog.hasSucceeded(rule.name, target.key)) {
+      return 'already succeeded';
+    }
+
+    // Pages created outside the scheduler count too, unless the rule rewrites them
+    if ((rule.mode ?? 'create') !== 'create') {
+      return null;
+    }
+
+    if (rule.task === 'create-day') {
+      const { title: pageTitle } = this.templates.render('day', {
+        date: parseDateArgument(target.date!),
+        sheetTitle: this.defaults?.sheetTitle,
+        sheetOwner: this.defaults?.sheetOwner,
+      });
+      const [entry] = await this.history.list({ kind: 'day', pageTitle, limit: 1 });
+      if (entry) {
+        return `page "${pageTitle}" is already in the workout history`;
+      }
+    }
+
+    if (rule.task === 'create-week' && this.calendar) {
+      const programWeek = this.calendar.weekAt(target.weekStart!);
+      if (programWeek && programWeek.weekNumber === undefined) {
+        return `the week is a program break (${programWeek.breakLabel})`;
+      }
+
+      const weekNumber = programWeek?.weekNumber;
+      const [entry] = weekNumber !== undefined ? await this.history.list({ kind: 'week', weekNumber, limit: 1 }) : [];
+      if (entry) {
+        return `page "${entry.pageTitle}" was already created for week ${weekNumber}`;
+      }
+    } else if (rule.task === 'create-week') {
+      const [entry] = await this.history.list({ kind: 'week', since: addDays(target.weekStart!, -7), limit: 1 });
+      if (entry) {
+        return `page "${entry.pageTitle}" was already created for this week`;
+      }
+    }
+
+    return null;
+  }
+
+  private async execute(rule: ScheduleRule, target: RunTarget): Promise<unknown> {
+    switch (rule.task) {
+      case 'create-day':
+        return await createDay({
+          profile: this.profile,
+          date: target.date,
+          tab: rule.tab,
+          mode: rule.mode,
+          output: rule.output,
+          outputDir: rule.outputDir,
+        });
+      case 'create-week':
+        return await createWeek({
+          profile: this.profile,
+          tab: rule.tab,
+          mode: rule.mode,
+          output: rule.output,
+          outputDir: rule.outputDir,
+        });
+      case 'post-workout':
+        return await postWorkout({
+          profile: this.profile,
+          date: target.date,
+          tab: rule.tab,
+          logTab: rule.logTab,
+          log: rule.log,
+          target: rule.target,
+        });
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import { findDateInText, isSameDay } from './dates';
+import { getRangeOrigin, toA1Cell, type GoogleSheetsClient } from './sheets';
+import { ProgramCalendar, type ProgramConfig } from './program-calendar';
+
+export interface SheetLayout {
+  // Range scanned for labels, e.g. "A1:Z200"
+  scanRange: string;
+  // Optional tab selector used when --tab is not given
+  tab?: string;
+  // "date-headers": each session sits at a fixed offset from a cell holding its date.
+  // "week-grid": "Week N" labels on one axis and "Session N" labels on the other.
+  strategy: 'date-headers' | 'week-grid';
+  dateFormat?: string;
+  sessionOffset?: {
+    rows?: number;
+    columns?: number;
+  };
+  // Used when "program.startDate" is not set
+  programStartDate?: string;
+  // Weekdays that hold sessions, in session order (e.g. ["monday", "wednesday", "friday"])
+  sessionDays?: string[];
+  weekLabelPattern?: string;
+  sessionLabelPattern?: string;
+}
+
+interface LabelPosition {
+  number: number;
+  rowIndex: number;
+  columnIndex: number;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DEFAULT_WEEK_LABEL_PATTERN = '^week\\s*(\\d+)';
+const DEFAULT_SESSION_LABEL_PATTERN = '^session\\s*(\\d+)';
+export class SessionLocator {
+  private layout: SheetLayout;
+  private program?: ProgramConfig;
+
+  constructor(layout: SheetLayout, program?: ProgramConfig) {
+    this.layout = layout;
+    this.program = program;
+  }
+
+  /**
+   * Returns the A1 reference of the session cell for `date` within the scanned
+   * grid, or null when the date has no session (e.g. a rest day).
+   */
+  locate(grid: any[][], date: Date): string | null {
+    const origin = getRangeOrigin(this.layout.scanRange);
+    const position = this.layout.strategy === 'week-grid'
+      ? this.locateInWeekGrid(grid, date)
+      : this.locateByDateHeader(grid, date);
+
+    if (!position) {
+      return null;
+    }
+
+    return toA1Cell(origin.rowIndex + position.rowIndex, origin.columnIndex + position.columnIndex);
+  }
+
+  /**
+   * Reads the layout's scan range and locates the session cell for `date`.
+   */
+  static async findSessionCell(
+    sheetsClient: GoogleSheetsClient,
+    spreadsheetId: string,
+    layout: SheetLayout,
+    date: Date,
+    tab?: string,
+    program?: ProgramConfig
+  ): Promise<string | null> {
+    const grid = await sheetsClient.getCellRange(spreadsheetId, layout.scanRange, tab);
+    return new SessionLocator(layout, program).locate(grid, date);
+  }
+
+  private locateByDateHeader(grid: any[][], date: Date): { rowIndex: number; columnIndex: number } | null {
+    const format = this.layout.dateFormat ?? 'M/D';
+    const rowOffset = this.layout.sessionOffset?.rows ?? 1;
+    const columnOffset = this.layout.sessionOffset?.columns ?? 0;
+
+    for (let rowIndex = 0; rowIndex < grid.length; rowIndex++) {
+      const row = grid[rowIndex] ?? [];
+      for (let columnIndex = 0; columnIndex < row.length; columnIndex++) {
+        const cell = row[columnIndex];
+        if (typeof cell !== 'string' || !cell.trim()) {
+          continue;
+        }
+
+        const cellDate = findDateInText(cell, format, date.getFullYear());
+        if (cellDate && isSameDay(cellDate, date)) {
+          return { rowIndex: rowIndex + rowOffset, columnIndex: columnIndex + columnOffset };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private locateInWeekGrid(grid: any[][], date: Date): { rowIndex: number; columnIndex: number } | null {
+    const calendar = ProgramCalendar.fromConfig(this.program)
+      ?? ProgramCalendar.fromConfig({ startDate: this.layout.programStartDate });
+    if (!calendar) {
+      throw new Error('program.startDate or layout.programStartDate is required for the "week-grid" layout');
+    }
+
+    // Nothing is scheduled before the program starts or during a break
+    const weekNumber = calendar.weekAt(date)?.weekNumber;
+    if (weekNumber === undefined) {
+      return null;
+    }
+
+    const sessionNumber = this.getSessionNumber(date);
+    if (sessionNumber === null) {
+      return null;
+    }
+
+    const weekLabels = this.findLabels(grid, new RegExp(this.layout.weekLabelPattern ?? DEFAULT_WEEK_LABEL_PATTERN, 'i'));
+    const sessionLabels = this.findLabels(grid, new RegExp(this.layout.sessionLabelPattern ?? DEFAULT_SESSION_LABEL_PATTERN, 'i'));
+
+    const weekLabel = weekLabels.find((label) => label.number === weekNumber);
+    const sessionLabel = sessionLabels.find((label) => label.number === sessionNumber);
+    if (!weekLabel || !sessionLabel) {
+      return null;
+    }
+
+    // Weeks listed down a column pair with session columns, and vice versa
+    const weeksAreRows = weekLabels.length < 2 || weekLabels[0]!.rowIndex !== weekLabels[1]!.rowIndex;
+    return weeksAreRows
+      ? { rowIndex: weekLabel.rowIndex, columnIndex: sessionLabel.columnIndex }
+      : { rowIndex: sessionLabel.rowIndex, columnIndex: weekLabel.columnIndex };
+  }
+
+  private getSessionNumber(date: Date): number | null {
+    const sessionDays = (this.layout.sessionDays ?? ['monday', 'wednesday', 'friday'])
+      .map((day) => WEEKDAYS.findIndex((weekday) => weekday.startsWith(day.toLowerCase().slice(0, 3))));
+    const index = sessionDays.indexOf(date.getDay());
+    return index === -1 ? null : index + 1;
+  }
+
+  private findLabels(grid: any[][], pattern: RegExp): LabelPosition[] {
+    const labels: LabelPosition[] = [];
+
+    grid.forEach((row, rowIndex) => {
+      (row ?? []).forEach((cell: any, columnIndex: number) => {
+        if (typeof cell !== 'string') {
+          return;
+        }
+        const match = cell.trim().match(pattern);
+        if (match?.[1]) {
+          labels.push({ number: parseInt(match[1]), rowIndex, columnIndex });
+        }
+      });
+    });
+
+    return labels;
+  }
+}
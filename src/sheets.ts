@@ -1,5 +1,6 @@
 import { google } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import { findDateInText, startOfDay } from './dates';
 
 export interface SheetInfo {
   id: string;
@@ -7,9 +8,102 @@ export interface SheetInfo {
   url: string;
 }
 
+export interface SheetTab {
+  sheetId: number;
+  title: string;
+  index: number;
+}
+
+export interface GridRange {
+  sheetId: number;
+  startRowIndex: number;
+  endRowIndex: number;
+  startColumnIndex: number;
+  endColumnIndex: number;
+}
+
+export interface ResolvedRange {
+  sheetId: number;
+  sheetTitle: string;
+  a1: string;
+  gridRange: GridRange;
+}
+
+const A1_RANGE_PATTERN = /^\$?([A-Z]+)\$?(\d+)(?::\$?([A-Z]+)\$?(\d+))?$/i;
+// Any A1 range, including open ones such as "A:E", "A2:E" and "1:3"
+const A1_NOTATION_PATTERN = /^(?:\$?[A-Z]+\$?\d+(?::\$?[A-Z]*\$?\d*)?|\$?[A-Z]+:\$?[A-Z]+\$?\d*|\$?\d+:\$?\d+)$/i;
+const DATE_TAB_SELECTOR_PREFIX = 'date:';
+
+export function quoteSheetTitle(title: string): string {
+  return `'${title.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Prefixes an A1 range with a tab, unless it already names one
+ * (e.g. "B2" + "Week 12" -> "'Week 12'!B2"). Named ranges carry their own tab
+ * and are returned as is, since the API rejects "'Week 12'!MyRange".
+ */
+export function qualifyRange(range: string, tab?: string): string {
+  if (!tab || range.includes('!') || !A1_NOTATION_PATTERN.test(range)) {
+    return range;
+  }
+  return `${quoteSheetTitle(tab)}!${range}`;
+}
+
+export function splitSheetReference(reference: string): { tab?: string; range: string } {
+  const separator = reference.lastIndexOf('!');
+  if (separator === -1) {
+    return { range: reference };
+  }
+
+  let tab = reference.slice(0, separator);
+  if (tab.startsWith("'") && tab.endsWith("'")) {
+    tab = tab.slice(1, -1).replace(/''/g, "'");
+  }
+  return { tab, range: reference.slice(separator + 1) };
+}
+
+export function columnLettersToIndex(letters: string): number {
+  let result = 0;
+  for (const letter of letters.toUpperCase()) {
+    result = result * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return result - 1;
+}
+
+export function columnIndexToLetters(index: number): string {
+  let letters = '';
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    letters = String.fromCharCode(65 + offset) + letters;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letters;
+}
+
+export function toA1Cell(rowIndex: number, columnIndex: number): string {
+  return `${columnIndexToLetters(columnIndex)}${rowIndex + 1}`;
+}
+
+/**
+ * Zero-based row and column of the top-left cell of an A1 range, ignoring any
+ * tab prefix ("'Week 3'!C5:H40" -> { rowIndex: 4, columnIndex: 2 }).
+ */
+export function getRangeOrigin(range: string): { rowIndex: number; columnIndex: number } {
+  const match = splitSheetReference(range).range.match(A1_RANGE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid A1 range "${range}"`);
+  }
+  return {
+    rowIndex: parseInt(match[2]!) - 1,
+    columnIndex: columnLettersToIndex(match[1]!),
+  };
+}
+
 export class GoogleSheetsClient {
-  private sheets: any;
-  private drive: any;
+  protected sheets: any;
+  protected drive: any;
 
   constructor(auth: OAuth2Client) {
     this.sheets = google.sheets({ version: 'v4', auth });
@@ -41,11 +135,11 @@ export class GoogleSheetsClient {
     }
   }
 
-  async getCellRange(spreadsheetId: string, range: string): Promise<any[][]> {
+  async getCellRange(spreadsheetId: string, range: string, tab?: string): Promise<any[][]> {
     try {
       const response = await this.sheets.spreadsheets.values.get({
         spreadsheetId,
-        range,
+        range: qualifyRange(range, tab),
       });
 
       return response.data.values || [];
@@ -58,7 +152,7 @@ export class GoogleSheetsClient {
     try {
       const response = await this.sheets.spreadsheets.get({
         spreadsheetId,
-        fields: 'properties,sheets.properties',
+        fields: 'properties,sheets.properties,namedRanges',
       });
 
       return response.data;
@@ -66,4 +160,166 @@ export class GoogleSheetsClient {
       throw new Error(`Error getting sheet metadata: ${error}`);
     }
   }
-}
\ No newline at end of file
+
+  async listTabs(spreadsheetId: string): Promise<SheetTab[]> {
+    const metadata = await this.getSheetMetadata(spreadsheetId);
+    return (metadata.sheets || []).map((sheet: any) => ({
+      sheetId: sheet.properties.sheetId,
+      title: sheet.properties.title,
+      index: sheet.properties.index,
+    }));
+  }
+
+  /**
+   * Picks a tab by exact (case-insensitive) title, or with a "date:<format>"
+   * selector such as "date:M/D" the most recent tab whose title contains a
+   * date on or before `date`.
+   */
+  async selectTab(spreadsheetId: string, selector: string, date: Date = new Date()): Promise<string> {
+    const tabs = await this.listTabs(spreadsheetId);
+
+    if (selector.toLowerCase().startsWith(DATE_TAB_SELECTOR_PREFIX)) {
+      const format = selector.slice(DATE_TAB_SELECTOR_PREFIX.length);
+      const target = startOfDay(date);
+      let best: { tab: SheetTab; date: Date } | null = null;
+
+      for (const tab of tabs) {
+        let tabDate = findDateInText(tab.title, format, target.getFullYear());
+        // A December tab seen in January without a year belongs to last year
+        if (tabDate && tabDate > target && !/Y/.test(format)) {
+          tabDate = findDateInText(tab.title, format, target.getFullYear() - 1);
+        }
+        if (tabDate && tabDate <= target && (!best || tabDate > best.date)) {
+          best = { tab, date: tabDate };
+        }
+      }
+
+      if (!best) {
+        throw new Error(`No tab title contains a "${format}" date on or before ${target.toDateString()}`);
+      }
+      return best.tab.title;
+    }
+
+    const tab = tabs.find((candidate) => candidate.title.toLowerCase() === selector.toLowerCase());
+    if (!tab) {
+      throw new Error(`Tab "${selector}" not found. Available tabs: ${tabs.map((candidate) => candidate.title).join(', ')}`);
+    }
+    return tab.title;
+  }
+
+  /**
+   * Resolves "B2", "Week 12!B2:C4" or a named range to a grid range on the
+   * correct tab. Unqualified A1 references use `tab`, falling back to the
+   * first tab.
+   */
+  async resolveRange(spreadsheetId: string, reference: string, tab?: string): Promise<ResolvedRange> {
+    const metadata = await this.getSheetMetadata(spreadsheetId);
+    const sheets: any[] = metadata.sheets || [];
+    const { tab: referencedTab, range } = splitSheetReference(reference);
+
+    if (!referencedTab && !A1_RANGE_PATTERN.test(range)) {
+      const namedRange = (metadata.namedRanges || []).find((candidate: any) => candidate.name === range);
+      if (!namedRange) {
+        throw new Error(`"${reference}" is neither an A1 reference nor a named range`);
+      }
+
+      const grid = namedRange.range;
+      const sheet = sheets.find((candidate) => (candidate.properties.sheetId ?? 0) === (grid.sheetId ?? 0));
+      if (!sheet) {
+        throw new Error(`Named range "${range}" points to a missing tab`);
+      }
+
+      return {
+        sheetId: sheet.properties.sheetId,
+        sheetTitle: sheet.properties.title,
+        a1: range,
+        gridRange: {
+          sheetId: sheet.properties.sheetId,
+          startRowIndex: grid.startRowIndex ?? 0,
+          endRowIndex: grid.endRowIndex ?? (grid.startRowIndex ?? 0) + 1,
+          startColumnIndex: grid.startColumnIndex ?? 0,
+          endColumnIndex: grid.endColumnIndex ?? (grid.startColumnIndex ?? 0) + 1,
+        },
+      };
+    }
+
+    const tabTitle = referencedTab ?? tab;
+    const sheet = tabTitle
+      ? sheets.find((candidate) => candidate.properties.title === tabTitle)
+      : sheets[0];
+    if (!sheet) {
+      throw new Error(`Tab "${tabTitle}" not found in spreadsheet`);
+    }
+
+    const match = range.match(A1_RANGE_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid A1 reference "${range}"`);
+    }
+
+    const startColumnIndex = columnLettersToIndex(match[1]!);
+    const startRowIndex = parseInt(match[2]!) - 1;
+    const endColumnIndex = match[3] ? columnLettersToIndex(match[3]) + 1 : startColumnIndex + 1;
+    const endRowIndex = match[4] ? parseInt(match[4]) : startRowIndex + 1;
+
+    return {
+      sheetId: sheet.properties.sheetId,
+      sheetTitle: sheet.properties.title,
+      a1: qualifyRange(range, sheet.properties.title),
+      gridRange: {
+        sheetId: sheet.properties.sheetId,
+        startRowIndex,
+        endRowIndex,
+        startColumnIndex,
+        endColumnIndex,
+      },
+    };
+  }
+
+  async ensureSheetTab(spreadsheetId: string, title: string, headerRow?: string[]): Promise<number> {
+    const metadata = await this.getSheetMetadata(spreadsheetId);
+    const existing = (metadata.sheets || []).find((sheet: any) => sheet.properties?.title === title);
+    if (existing) {
+      return existing.properties.sheetId;
+    }
+
+    try {
+      const response = await this.sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        resource: {
+          requests: [
+            {
+              addSheet: {
+                properties: { title },
+              },
+            },
+          ],
+        },
+      });
+
+      if (headerRow) {
+        await this.appendRows(spreadsheetId, title, [headerRow]);
+      }
+
+      return response.data.replies[0].addSheet.properties.sheetId;
+    } catch (error) {
+      throw new Error(`Error creating sheet tab "${title}": ${error}`);
+    }
+  }
+
+  async appendRows(spreadsheetId: string, tabTitle: string, rows: string[][]): Promise<void> {
+    try {
+      await this.sheets.spreadsheets.values.append({
+        spreadsheetId,
+        range: qualifyRange('A1', tabTitle),
+        // RAW so notes starting with "=", "+" or "-" are not read as formulas
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        resource: {
+          values: rows,
+        },
+      });
+    } catch (error) {
+      throw new Error(`Error appending rows to "${tabTitle}": ${error}`);
+    }
+  }
+}
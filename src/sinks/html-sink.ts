@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { WorkoutSectionData, WorkoutSession } from '../notion';
+import { describeGroup, groupSections } from '../parser';
+import { slugify } from './render';
+import type { OutputSink, PublishRequest, PublishResult } from './types';
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #222; }
+  h1 { margin-bottom: 0.25rem; }
+  .group { border-left: 4px solid #4a7bd0; background: #f3f6fc; padding: 0.5rem 1rem; margin: 1rem 0; border-radius: 4px; }
+  .group-title { font-weight: 600; }
+  .section-header { font-weight: 600; margin: 1rem 0 0.25rem; }
+  iframe { width: 100%; aspect-ratio: 16 / 9; border: 0; margin: 0.5rem 0; }
+`;
+
+export class HtmlSink implements OutputSink {
+  readonly name = 'html';
+  private outputDir: string;
+
+  constructor(outputDir: string) {
+    this.outputDir = outputDir;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const filePath = path.join(this.outputDir, `${slugify(request.title)}.html`);
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(filePath, this.render(request), 'utf8');
+
+    return { sink: this.name, location: filePath, action: 'written' };
+  }
+
+  private render(request: PublishRequest): string {
+    const body: string[] = [`<h1>${escapeHtml(request.title)}</h1>`];
+
+    for (const session of request.sessions) {
+      if (request.kind === 'week') {
+        body.push(`<h2>Session ${session.sessionNumber}</h2>`);
+      }
+      body.push(this.renderSession(session));
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(request.title)}</title>`,
+      `<style>${STYLES}</style>`,
+      '</head>',
+      '<body>',
+      ...body,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  private renderSession(session: WorkoutSession): string {
+    return groupSections(session)
+      .map((block) => {
+        const sections = block.sections.map((section) => this.renderSection(section)).join('\n');
+        if (!block.group) {
+          return sections;
+        }
+        return [
+          '<div class="group">',
+          `<div class="group-title">${escapeHtml(describeGroup(block.group))}</div>`,
+          sections,
+          '</div>',
+        ].join('\n');
+      })
+      .join('\n');
+  }
+
+  private renderSection(section: WorkoutSectionData): string {
+    const parts: string[] = [];
+
+    if (section.type === 'upper_lower' && section.header) {
+      parts.push(`<h3>${escapeHtml(section.header)}</h3>`);
+    } else if (section.header) {
+      parts.push(`<p class="section-header">${escapeHtml(section.header)}</p>`);
+    }
+
+    if (section.type === 'text') {
+      parts.push(...section.content.map((item) => `<p>${escapeHtml(item)}</p>`));
+    } else if (section.content.length > 0) {
+      parts.push('<ul>', ...section.content.map((item) => `<li>${escapeHtml(item)}</li>`), '</ul>');
+    }
+
+    for (const youtubeUrl of section.youtubeLinks) {
+      const videoId = new URL(youtubeUrl).searchParams.get('v');
+      parts.push(videoId
+        ? `<iframe src="https://www.youtube.com/embed/${encodeURIComponent(videoId)}" allowfullscreen></iframe>`
+        : `<p><a href="${escapeHtml(youtubeUrl)}">${escapeHtml(youtubeUrl)}</a></p>`);
+    }
+
+    return parts.join('\n');
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
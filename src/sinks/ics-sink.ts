@@ -0,0 +1,89 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { addDays, formatDate } from '../dates';
+import { getSessionDates, renderSessionMarkdown, slugify } from './render';
+import type { OutputSink, PublishRequest, PublishResult } from './types';
+
+export class IcsSink implements OutputSink {
+  readonly name = 'ics';
+  private outputDir: string;
+  private sessionDays?: string[];
+
+  constructor(outputDir: string, sessionDays?: string[]) {
+    this.outputDir = outputDir;
+    this.sessionDays = sessionDays;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const filePath = path.join(this.outputDir, `${slugify(request.title)}.ics`);
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(filePath, this.render(request), 'utf8');
+
+    return { sink: this.name, location: filePath, action: 'written' };
+  }
+
+  private render(request: PublishRequest): string {
+    const dates = getSessionDates(request, this.sessionDays);
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//workout-google-sheets//EN',
+      'CALSCALE:GREGORIAN',
+    ];
+
+    request.sessions.forEach((session, index) => {
+      const date = dates[index]!;
+      const summary = request.kind === 'week'
+        ? `${request.title} – Session ${session.sessionNumber}`
+        : request.title;
+      const description = renderSessionMarkdown(session, 2).join('\n').trim();
+
+      lines.push(
+        'BEGIN:VEVENT',
+        // Stable UIDs let calendar apps update events when the file is re-imported
+        `UID:${slugify(request.title)}-session-${session.sessionNumber}@workout-google-sheets`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatDate(date, 'YYYYMMDD')}`,
+        `DTEND;VALUE=DATE:${formatDate(addDays(date, 1), 'YYYYMMDD')}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        'END:VEVENT',
+      );
+    });
+
+    lines.push('END:VCALENDAR');
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+  }
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
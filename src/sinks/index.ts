@@ -0,0 +1,65 @@
+import { NotionClient } from '../notion';
+import { NotionDatabaseClient } from '../notion-database';
+import { UsageError } from '../cli';
+import { HtmlSink } from './html-sink';
+import { IcsSink } from './ics-sink';
+import { MarkdownSink } from './markdown-sink';
+import { NotionDatabaseSink } from './notion-database-sink';
+import { NotionSink } from './notion-sink';
+import { ObsidianSink } from './obsidian-sink';
+import type { OutputSink, OutputSinkOptions } from './types';
+
+export type { OutputSink, OutputSinkOptions, PublishRequest, PublishResult } from './types';
+
+export const OUTPUT_SINK_NAMES = ['notion', 'notion-database', 'markdown', 'obsidian', 'html', 'ics'] as const;
+
+export type OutputSinkName = typeof OUTPUT_SINK_NAMES[number];
+
+export function parseOutputSinkNames(value: string = 'notion'): OutputSinkName[] {
+  const names = value.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+  if (names.length === 0) {
+    throw new UsageError('At least one output is required');
+  }
+
+  for (const name of names) {
+    if (!OUTPUT_SINK_NAMES.includes(name as OutputSinkName)) {
+      throw new UsageError(`Unknown output "${name}". Expected one of: ${OUTPUT_SINK_NAMES.join(', ')}`);
+    }
+  }
+
+  return Array.from(new Set(names)) as OutputSinkName[];
+}
+
+export async function createOutputSinks(names: OutputSinkName[], options: OutputSinkOptions): Promise<OutputSink[]> {
+  const sinks: OutputSink[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'notion':
+        console.log('Connecting to Notion...');
+        sinks.push(new NotionSink(new NotionClient(options.config)));
+        break;
+      case 'notion-database':
+        console.log('Connecting to Notion...');
+        sinks.push(new NotionDatabaseSink(new NotionDatabaseClient(options.config), options.sessionDays));
+        break;
+      case 'markdown':
+        sinks.push(new MarkdownSink(options.outputDir));
+        break;
+      case 'obsidian':
+        if (!options.obsidianVault) {
+          throw new Error('The obsidian output needs a vault path: set output.obsidianVault in config.json');
+        }
+        sinks.push(new ObsidianSink(options.obsidianVault, options.obsidianFolder));
+        break;
+      case 'html':
+        sinks.push(new HtmlSink(options.outputDir));
+        break;
+      case 'ics':
+        sinks.push(new IcsSink(options.outputDir, options.sessionDays));
+        break;
+    }
+  }
+
+  return sinks;
+}
@@ -0,0 +1,22 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { renderMarkdown, slugify } from './render';
+import type { OutputSink, PublishRequest, PublishResult } from './types';
+
+export class MarkdownSink implements OutputSink {
+  readonly name = 'markdown';
+  private outputDir: string;
+
+  constructor(outputDir: string) {
+    this.outputDir = outputDir;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const filePath = path.join(this.outputDir, `${slugify(request.title)}.md`);
+
+    await fs.mkdir(this.outputDir, { recursive: true });
+    await fs.writeFile(filePath, renderMarkdown(request), 'utf8');
+
+    return { sink: this.name, location: filePath, action: 'written' };
+  }
+}
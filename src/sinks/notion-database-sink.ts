@@ -0,0 +1,50 @@
+import type { NotionDatabaseClient } from '../notion-database';
+import { getSessionDates } from './render';
+import type { OutputSink, PublishRequest, PublishResult } from './types';
+
+export class NotionDatabaseSink implements OutputSink {
+  readonly name = 'notion-database';
+  private client: NotionDatabaseClient;
+  private sessionDays?: string[];
+
+  constructor(client: NotionDatabaseClient, sessionDays?: string[]) {
+    this.client = client;
+    this.sessionDays = sessionDays;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const dates = getSessionDates(request, this.sessionDays);
+
+    let weekRowId: string | undefined;
+    let result: PublishResult | undefined;
+
+    if (request.kind === 'week') {
+      const { pageId, action } = await this.client.upsertWeekRow({
+        title: request.title,
+        weekNumber: request.weekNumber,
+        startDate: request.date,
+        sessions: request.sessions,
+      }, request.mode);
+
+      weekRowId = pageId;
+      result = { sink: this.name, location: pageId, action };
+    } else if (request.weekNumber !== undefined) {
+      weekRowId = await this.client.findWeekRow(request.weekNumber) ?? undefined;
+    }
+
+    for (const [index, session] of request.sessions.entries()) {
+      const { pageId, action } = await this.client.upsertSessionRow({
+        title: request.kind === 'week' ? `${request.title} – Session ${session.sessionNumber}` : request.title,
+        date: dates[index]!,
+        weekNumber: request.weekNumber,
+        session,
+        weekRowId,
+      }, request.mode);
+
+      result ??= { sink: this.name, location: pageId, action };
+    }
+
+    console.log(this.client.requestSummary());
+    return result!;
+  }
+}
@@ -0,0 +1,26 @@
+import type { NotionClient } from '../notion';
+import type { OutputSink, PublishRequest, PublishResult } from './types';
+
+export class NotionSink implements OutputSink {
+  readonly name = 'notion';
+  private client: NotionClient;
+
+  constructor(client: NotionClient) {
+    this.client = client;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const appearance = { icon: request.icon, cover: request.cover };
+    const { pageId, action } = request.kind === 'week'
+      ? await this.client.upsertWorkoutPage(request.title, request.sessions, request.mode, appearance)
+      : await this.client.upsertDayWorkoutPage(request.title, request.sessions[0]!, request.mode, appearance);
+    console.log(this.client.requestSummary());
+
+    return {
+      sink: this.name,
+      location: pageId,
+      action,
+      notionPageId: pageId,
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { formatDate } from '../dates';
+import { renderMarkdown } from './render';
+import type { OutputSink, PublishRequest, PublishResult } from './types';
+
+export class ObsidianSink implements OutputSink {
+  readonly name = 'obsidian';
+  private folder: string;
+
+  constructor(vaultPath: string, folder: string = 'Workouts') {
+    this.folder = path.join(vaultPath, folder);
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    // Obsidian note names cannot contain slashes, so "1/6/2025" becomes "1-6-2025"
+    const fileName = `${request.title.replace(/[\\/:*?"<>|#^[\]]/g, '-')}.md`;
+    const filePath = path.join(this.folder, fileName);
+
+    await fs.mkdir(this.folder, { recursive: true });
+    await fs.writeFile(filePath, `${this.buildFrontmatter(request)}\n${renderMarkdown(request)}`, 'utf8');
+
+    return { sink: this.name, location: filePath, action: 'written' };
+  }
+
+  private buildFrontmatter(request: PublishRequest): string {
+    const exercises = new Set<string>();
+    for (const session of request.sessions) {
+      for (const section of session.sections) {
+        for (const item of section.items ?? []) {
+          if (item.exercise?.name) {
+            exercises.add(item.exercise.name);
+          }
+        }
+      }
+    }
+
+    const lines = [
+      '---',
+      `title: ${JSON.stringify(request.title)}`,
+      `date: ${formatDate(request.date, 'YYYY-MM-DD')}`,
+      `type: workout-${request.kind}`,
+    ];
+    if (request.weekNumber !== undefined) {
+      lines.push(`week: ${request.weekNumber}`);
+    }
+    lines.push(`sessions: ${request.sessions.length}`);
+    if (exercises.size > 0) {
+      lines.push('exercises:', ...Array.from(exercises).map((name) => `  - ${JSON.stringify(name)}`));
+    }
+    lines.push('tags:', '  - workout', '---');
+
+    return lines.join('\n');
+  }
+}
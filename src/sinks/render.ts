@@ -0,0 +1,90 @@
+import type { WorkoutSectionData, WorkoutSession } from '../notion';
+import { describeGroup, groupSections } from '../parser';
+import { addDays, formatDate } from '../dates';
+import type { PublishRequest } from './types';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DEFAULT_SESSION_DAYS = ['monday', 'wednesday', 'friday'];
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'workout';
+}
+
+/**
+ * Calendar date of each session. A day page has one session on its date; week
+ * sessions fall on the configured session weekdays starting from the week date.
+ */
+export function getSessionDates(request: PublishRequest, sessionDays: string[] = DEFAULT_SESSION_DAYS): Date[] {
+  if (request.kind === 'day') {
+    return request.sessions.map(() => request.date);
+  }
+
+  const weekdays = sessionDays
+    .map((day) => WEEKDAYS.findIndex((weekday) => weekday.startsWith(day.toLowerCase().slice(0, 3))))
+    .filter((weekday) => weekday !== -1);
+
+  return request.sessions.map((_, index) => {
+    const weekday = weekdays[index % Math.max(weekdays.length, 1)];
+    if (weekday === undefined) {
+      return addDays(request.date, index);
+    }
+    const weekOffset = Math.floor(index / weekdays.length) * 7;
+    const dayOffset = (weekday - request.date.getDay() + 7) % 7;
+    return addDays(request.date, weekOffset + dayOffset);
+  });
+}
+
+export function renderSectionMarkdown(section: WorkoutSectionData, headingLevel: number): string[] {
+  const lines: string[] = [];
+
+  if (section.header) {
+    lines.push(`${'#'.repeat(headingLevel)} ${section.header}`, '');
+  }
+
+  const videos = section.youtubeLinks.map((youtubeUrl) => `- [Video](${youtubeUrl})`);
+
+  if (section.type === 'text') {
+    lines.push(...section.content, '');
+    if (videos.length > 0) {
+      lines.push(...videos, '');
+    }
+  } else if (section.content.length > 0 || videos.length > 0) {
+    lines.push(...section.content.map((item) => `- ${item}`), ...videos, '');
+  }
+
+  return lines;
+}
+
+export function renderSessionMarkdown(session: WorkoutSession, headingLevel: number): string[] {
+  const lines: string[] = [];
+
+  for (const block of groupSections(session)) {
+    if (block.group) {
+      lines.push(`${'#'.repeat(headingLevel)} ${describeGroup(block.group)}`, '');
+      block.sections.forEach((section) => lines.push(...renderSectionMarkdown(section, headingLevel + 1)));
+    } else {
+      block.sections.forEach((section) => lines.push(...renderSectionMarkdown(section, headingLevel)));
+    }
+  }
+
+  return lines;
+}
+
+export function renderMarkdown(request: PublishRequest): string {
+  const lines: string[] = [`# ${request.title}`, ''];
+
+  if (request.kind === 'day') {
+    lines.push(`_${formatDate(request.date, 'MMMM D, YYYY')}_`, '');
+    request.sessions.forEach((session) => lines.push(...renderSessionMarkdown(session, 2)));
+  } else {
+    for (const session of request.sessions) {
+      lines.push(`## Session ${session.sessionNumber}`, '');
+      lines.push(...renderSessionMarkdown(session, 3));
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
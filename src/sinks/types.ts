@@ -0,0 +1,37 @@
+import type { PageWriteMode, WorkoutSession } from '../notion';
+import type { Config } from '../config';
+
+export interface PublishRequest {
+  kind: 'week' | 'day';
+  title: string;
+  sessions: WorkoutSession[];
+  // The day of a day page, or the first day of the week for a week page
+  date: Date;
+  weekNumber?: number;
+  // An emoji or an image URL
+  icon?: string;
+  cover?: string;
+  mode: PageWriteMode;
+}
+
+export interface PublishResult {
+  sink: string;
+  location: string;
+  action: 'created' | 'updated' | 'replaced' | 'unchanged' | 'written';
+  notionPageId?: string;
+}
+
+export interface OutputSink {
+  readonly name: string;
+  publish(request: PublishRequest): Promise<PublishResult>;
+}
+
+export interface OutputSinkOptions {
+  // Loaded configuration, used for Notion credentials
+  config: Config;
+  outputDir: string;
+  obsidianVault?: string;
+  obsidianFolder?: string;
+  // Weekdays that hold sessions, used to date week sessions in calendars
+  sessionDays?: string[];
+}
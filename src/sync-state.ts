@@ -0,0 +1,67 @@
+import fs from 'fs/promises';
+
+export const SYNC_STATE_FILE_PATH = 'sync-state.json';
+
+export interface SyncEntry {
+  spreadsheetId: string;
+  // Session date (YYYY-MM-DD), which identifies the session even if its cell moves
+  date: string;
+  cellReference: string;
+  pageTitle: string;
+  pageId: string;
+  // Both sides as they were at the last sync, to tell which one was edited since
+  cellValue: string;
+  pageText: string;
+  syncedAt: string;
+}
+
+export type NewSyncEntry = Omit<SyncEntry, 'syncedAt'>;
+
+/**
+ * Local record of which Notion page each session cell syncs with.
+ */
+export class SyncState {
+  private filePath: string;
+
+  constructor(filePath: string = SYNC_STATE_FILE_PATH) {
+    this.filePath = filePath;
+  }
+
+  async get(spreadsheetId: string, date: string): Promise<SyncEntry | null> {
+    const entries = await this.readAll();
+    return entries.find((entry) => entry.spreadsheetId === spreadsheetId && entry.date === date) ?? null;
+  }
+
+  async save(entry: NewSyncEntry): Promise<SyncEntry> {
+    const entries = await this.readAll();
+    const stored: SyncEntry = { ...entry, syncedAt: new Date().toISOString() };
+    const index = entries.findIndex((existing) => existing.spreadsheetId === entry.spreadsheetId && existing.date === entry.date);
+
+    if (index === -1) {
+      entries.push(stored);
+    } else {
+      entries[index] = stored;
+    }
+
+    await fs.writeFile(this.filePath, `${JSON.stringify(entries, null, 2)}\n`, 'utf8');
+    return stored;
+  }
+
+  private async readAll(): Promise<SyncEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Error reading sync state from ${this.filePath}: ${error}`);
+    }
+
+    try {
+      return JSON.parse(content) as SyncEntry[];
+    } catch (error) {
+      throw new Error(`Invalid sync state in ${this.filePath}: ${error}`);
+    }
+  }
+}
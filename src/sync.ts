@@ -0,0 +1,396 @@
+import { Command } from 'commander';
+import { APIErrorCode, isNotionClientError } from '@notionhq/client';
+import { NotionClient, type PageAppearance, type WorkoutSession } from './notion';
+import { WorkoutParser } from './parser';
+import { getRangeOrigin, qualifyRange } from './sheets';
+import { addDays, formatDate, parseDateArgument, startOfDay } from './dates';
+import { loadConfig, type Config } from './config';
+import { PageTemplates } from './page-templates';
+import { SessionLocator } from './session-locator';
+import { blocksToMarkdown } from './blocks';
+import { splitNoteSections } from './note-sections';
+import { SyncState, type SyncEntry } from './sync-state';
+import { diffLines, formatDiff } from './text-diff';
+import { UsageError, addGlobalOptions, printResult, runProgram, type GlobalOptions } from './cli';
+import { openSheet, requireSheetReference, resolveTab, type SheetContext } from './pipeline';
+import {
+  NotesSheetsClient,
+  NotesWriter,
+  formatWriteBackChange,
+  parseWriteBackTargets,
+  type WriteBackTarget,
+} from './write-back';
+
+const USAGE = [
+  '--sheet-owner <email>     Google Sheets owner email',
+  '--sheet-title <title>     Google Sheets document title',
+];
+
+export const SYNC_PREFERENCES = ['sheet', 'notion'] as const;
+
+export type SyncPreference = typeof SYNC_PREFERENCES[number];
+
+export type SyncAction = 'pushed' | 'pulled' | 'linked' | 'unchanged' | 'conflict';
+
+export interface SyncOptions extends GlobalOptions {
+  sheetOwner?: string;
+  sheetTitle?: string;
+  from?: string;
+  to?: string;
+  tab?: string;
+  // Comma-separated write-back targets for pulled notes (defaults to writeBack.targets)
+  target?: string;
+  // Side that wins a conflict; without it conflicts are only reported
+  prefer?: string;
+  preview?: boolean;
+}
+
+export interface SyncSessionResult {
+  date: string;
+  sessionCell: string;
+  pageTitle: string;
+  pageId?: string;
+  action: SyncAction;
+  // Why a session conflicts
+  reason?: string;
+}
+
+export interface SyncResult {
+  sessions: SyncSessionResult[];
+  conflicts: number;
+  preview: boolean;
+}
+
+interface NotionPage {
+  pageId: string;
+  blocks: any[];
+  text: string;
+}
+
+interface SyncRun {
+  config: Config;
+  sheet: SheetContext<NotesSheetsClient>;
+  client: SyncClient;
+  state: SyncState;
+  targets: WriteBackTarget[];
+  prefer?: SyncPreference;
+  preview: boolean;
+}
+
+interface SyncSession {
+  date: Date;
+  cell: string;
+  tab?: string;
+  cellValue: string;
+  pageTitle: string;
+  appearance: PageAppearance;
+}
+
+class SyncClient extends NotionClient {
+  /**
+   * The page's blocks and its text as sync compares it, or null when the page
+   * no longer exists.
+   */
+  async readPage(pageId: string): Promise<NotionPage | null> {
+    try {
+      const blocks = await this.getPageBlocks(pageId);
+      return { pageId, blocks, text: toComparableText(blocks) };
+    } catch (error) {
+      if (isNotionClientError(error) && error.code === APIErrorCode.ObjectNotFound) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // The text of the page a session would be published as
+  renderDay(session: WorkoutSession): string {
+    return toComparableText(this.blocks.buildDay(session));
+  }
+
+  async pushDay(page: NotionPage | null, pageTitle: string, session: WorkoutSession, appearance: PageAppearance): Promise<string> {
+    if (page) {
+      await this.rewritePageContent(page.pageId, this.blocks.buildDay(session), 'update');
+      return page.pageId;
+    }
+    return (await this.upsertDayWorkoutPage(pageTitle, session, 'update', appearance)).pageId;
+  }
+}
+
+export function parseSyncPreference(value?: string): SyncPreference | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!SYNC_PREFERENCES.includes(value as SyncPreference)) {
+    throw new UsageError(`Invalid --prefer "${value}". Expected one of: ${SYNC_PREFERENCES.join(', ')}`);
+  }
+  return value as SyncPreference;
+}
+
+/**
+ * Two-way sync between the session cells for a range of dates and their day
+ * pages. Program edits in the sheet are pushed to Notion and page edits are
+ * pulled back as notes. The state file keeps both sides as of the last sync,
+ * so a session edited on both sides since then is reported instead of one
+ * side overwriting the other.
+ */
+export async function sync(options: SyncOptions): Promise<SyncResult> {
+  const config = await loadConfig({ profile: options.profile });
+  const prefer = parseSyncPreference(options.prefer);
+  const targets = parseWriteBackTargets(options.target ?? config.writeBack?.targets);
+
+  const { sheetOwner, sheetTitle } = requireSheetReference(options, config, USAGE);
+  if (!config.layout) {
+    throw new UsageError('sync finds sessions by date and requires a "layout" section in config.json describing the sheet');
+  }
+
+  const from = startOfDay(parseDateArgument(options.from ?? 'today'));
+  const to = options.to ? startOfDay(parseDateArgument(options.to)) : from;
+  if (to < from) {
+    throw new UsageError('--to must not be before --from');
+  }
+
+  const sheet = await openSheet(config, sheetOwner, sheetTitle, {
+    scopes: targets.includes('comment') ? 'comment' : 'write',
+    clientClass: NotesSheetsClient,
+  });
+  const tab = await resolveTab(sheet, options.tab ?? config.layout.tab, from);
+
+  console.log(`Reading sessions from ${config.layout.scanRange}...`);
+  const grid = await sheet.sheetsClient.getCellRange(sheet.sheetInfo.id, config.layout.scanRange, tab);
+  const origin = getRangeOrigin(config.layout.scanRange);
+  const locator = new SessionLocator(config.layout, config.program);
+  const templates = PageTemplates.fromConfig(config);
+
+  const run: SyncRun = {
+    config,
+    sheet,
+    client: new SyncClient(config),
+    state: new SyncState(config.sync?.statePath),
+    targets,
+    prefer,
+    preview: Boolean(options.preview),
+  };
+
+  const sessions: SyncSessionResult[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const cell = locator.locate(grid, date);
+    if (!cell) {
+      continue;
+    }
+
+    const position = getRangeOrigin(cell);
+    const cellValue = grid[position.rowIndex - origin.rowIndex]?.[position.columnIndex - origin.columnIndex];
+    if (typeof cellValue !== 'string' || !cellValue.trim()) {
+      continue;
+    }
+
+    const page = templates.render('day', { date, sheetTitle, sheetOwner });
+    sessions.push(await syncSession(run, {
+      date,
+      cell,
+      tab,
+      cellValue,
+      pageTitle: page.title,
+      appearance: { icon: page.icon, cover: page.cover },
+    }));
+  }
+
+  console.log(run.client.requestSummary());
+
+  const conflicts = sessions.filter((session) => session.action === 'conflict').length;
+  console.log(`\n${run.preview ? 'Preview: ' : ''}${formatSummary(sessions)}`);
+  if (conflicts > 0 && !prefer) {
+    console.log('Resolve conflicts by editing one side back, or re-run with --prefer sheet|notion');
+  }
+
+  return { sessions, conflicts, preview: run.preview };
+}
+
+async function syncSession(run: SyncRun, session: SyncSession): Promise<SyncSessionResult> {
+  const { client, state, prefer } = run;
+  const spreadsheetId = run.sheet.sheetInfo.id;
+  const date = formatDate(session.date, 'YYYY-MM-DD');
+  const result: SyncSessionResult = { date, sessionCell: qualifyRange(session.cell, session.tab), pageTitle: session.pageTitle, action: 'unchanged' };
+
+  const base = await state.get(spreadsheetId, date);
+  let page = base ? await client.readPage(base.pageId) : null;
+  if (!page) {
+    // Never synced, or the page was deleted or replaced since
+    const pageId = await client.findNestedPage(session.pageTitle);
+    page = pageId ? await client.readPage(pageId) : null;
+  }
+  result.pageId = page?.pageId;
+
+  const conflict = (reason: string): SyncSessionResult => {
+    console.log(`\n⚠️  ${date} ${result.sessionCell} ↔ "${session.pageTitle}": ${reason}`);
+    if (base) {
+      printEdits('Google Sheets', base.cellValue, session.cellValue);
+      printEdits('Notion', base.pageText, page?.text ?? '');
+    }
+    return { ...result, action: 'conflict', reason };
+  };
+
+  let action: 'push' | 'pull' | 'link' | null;
+  if (!page) {
+    action = !base || prefer === 'sheet' ? 'push' : null;
+    if (!action) {
+      return conflict('the Notion page was deleted since the last sync');
+    }
+  } else if (!base) {
+    action = page.text === client.renderDay(WorkoutParser.parseSingleCell(session.cellValue))
+      ? 'link'
+      : preferredAction(prefer);
+    if (!action) {
+      return conflict('the cell and the page differ and there is no earlier sync to tell which side changed');
+    }
+  } else {
+    const sheetChanged = session.cellValue !== base.cellValue;
+    const notionChanged = page.text !== base.pageText;
+
+    if (!sheetChanged && !notionChanged) {
+      return result;
+    }
+    if (sheetChanged && notionChanged) {
+      action = preferredAction(prefer);
+      if (!action) {
+        return conflict('edited in both Google Sheets and Notion since the last sync');
+      }
+    } else if (sheetChanged) {
+      // Pushing rewrites the page, so only do it while the page still shows
+      // exactly the program that was last synced
+      const pageHasEdits = page.text !== client.renderDay(WorkoutParser.parseSingleCell(base.cellValue));
+      action = pageHasEdits ? preferredAction(prefer) : 'push';
+      if (!action) {
+        return conflict('the program changed in the sheet, but pushing it would overwrite edits on the Notion page');
+      }
+    } else {
+      action = 'pull';
+    }
+  }
+
+  switch (action) {
+    case 'push': {
+      console.log(`\n${date}: pushing ${result.sessionCell} to "${session.pageTitle}"`);
+      if (base) {
+        printEdits('Google Sheets', base.cellValue, session.cellValue);
+      }
+      if (run.preview) {
+        return { ...result, action: 'pushed' };
+      }
+
+      const pageId = await client.pushDay(page, session.pageTitle, WorkoutParser.parseSingleCell(session.cellValue), session.appearance);
+      page = await client.readPage(pageId);
+      await saveEntry(run, session, date, page!);
+      return { ...result, pageId, action: 'pushed' };
+    }
+
+    case 'pull':
+      console.log(`\n${date}: pulling notes from "${session.pageTitle}" into ${result.sessionCell}`);
+      // The page still shows the program as last synced, if there was a sync
+      await pullNotes(run, session, page!, base?.cellValue ?? session.cellValue);
+      if (!run.preview) {
+        await saveEntry(run, session, date, page!);
+      }
+      return { ...result, action: 'pulled' };
+
+    case 'link':
+      console.log(`\n${date}: ${result.sessionCell} already matches "${session.pageTitle}", linking them`);
+      if (!run.preview) {
+        await saveEntry(run, session, date, page!);
+      }
+      return { ...result, action: 'linked' };
+  }
+}
+
+async function pullNotes(run: SyncRun, session: SyncSession, page: NotionPage, programCell: string): Promise<void> {
+  const { sheetsClient, sheetInfo } = run.sheet;
+  const writer = new NotesWriter(sheetsClient, {
+    spreadsheetId: sheetInfo.id,
+    cell: session.cell,
+    tab: session.tab,
+    date: session.date,
+    pageTitle: session.pageTitle,
+  }, run.config.writeBack);
+
+  // Same notes as post-workout writes back, without the generated program
+  const noteBlocks = run.client.removeWorkoutBlocks(page.blocks, WorkoutParser.parseSingleCell(programCell));
+  const markdown = blocksToMarkdown(noteBlocks, { media: false });
+  const changes = await writer.plan(run.targets, splitNoteSections(markdown, run.config.writeBack?.sections));
+
+  for (const change of changes) {
+    console.log(formatWriteBackChange(change));
+    if (!run.preview && change.before !== change.after) {
+      await writer.apply(change);
+    }
+  }
+}
+
+async function saveEntry(run: SyncRun, session: SyncSession, date: string, page: NotionPage): Promise<SyncEntry> {
+  return run.state.save({
+    spreadsheetId: run.sheet.sheetInfo.id,
+    date,
+    cellReference: qualifyRange(session.cell, session.tab),
+    pageTitle: session.pageTitle,
+    pageId: page.pageId,
+    cellValue: session.cellValue,
+    pageText: page.text,
+  });
+}
+
+function preferredAction(prefer?: SyncPreference): 'push' | 'pull' | null {
+  if (prefer === 'sheet') return 'push';
+  if (prefer === 'notion') return 'pull';
+  return null;
+}
+
+// Formatting is left out, so restyling text in Notion is not an edit
+function toComparableText(blocks: any[]): string {
+  return blocksToMarkdown(blocks, { annotations: false });
+}
+
+function printEdits(side: string, before: string, after: string): void {
+  if (before === after) {
+    console.log(`${side}: unchanged since the last sync`);
+    return;
+  }
+  console.log(`${side} since the last sync:\n${formatDiff(diffLines(before, after))}`);
+}
+
+function formatSummary(sessions: SyncSessionResult[]): string {
+  if (sessions.length === 0) {
+    return 'No sessions found in the date range';
+  }
+
+  const counts = new Map<SyncAction, number>();
+  for (const session of sessions) {
+    counts.set(session.action, (counts.get(session.action) ?? 0) + 1);
+  }
+  const parts = Array.from(counts, ([action, count]) => `${count} ${action}`);
+  return `Synced ${sessions.length} session${sessions.length === 1 ? '' : 's'}: ${parts.join(', ')}`;
+}
+
+export function syncCommand(name: string = 'sync'): Command {
+  const command = new Command(name);
+
+  command
+    .description('Sync session cells and their Notion day pages in both directions')
+    .option('--sheet-owner <email>', 'Google Sheets owner email')
+    .option('--sheet-title <title>', 'Google Sheets document title')
+    .option('--from <date>', 'First session date to sync (today, yesterday, tomorrow, YYYY-MM-DD, M/D/YYYY)', 'today')
+    .option('--to <date>', 'Last session date to sync (defaults to --from)')
+    .option('--tab <tab>', 'Tab holding the sessions (name, or "date:<format>" for the latest dated tab)')
+    .option('--target <targets>', 'Where to write pulled notes, comma-separated (note|append-note|column|comment|log-row)')
+    .option('--prefer <side>', `Resolve conflicts in favour of one side (${SYNC_PREFERENCES.join('|')})`)
+    .option('--preview', 'Show what would be pushed and pulled without writing anything')
+    .action(async (_, actionCommand: Command) => {
+      const result = await sync(actionCommand.optsWithGlobals());
+      printResult(actionCommand, result);
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(syncCommand()));
+}
@@ -0,0 +1,77 @@
+export interface DiffLine {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line diff of two texts from their longest common subsequence. Meant for
+ * notes and pages, so the quadratic table is not a concern.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before ? before.split('\n') : [];
+  const newLines = after ? after.split('\n') : [];
+
+  // common[i][j]: length of the common subsequence of oldLines[i..] and newLines[j..]
+  const common = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      common[i]![j] = oldLines[i] === newLines[j]
+        ? common[i + 1]![j + 1]! + 1
+        : Math.max(common[i + 1]![j]!, common[i]![j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push({ kind: 'same', text: oldLines[i]! });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || common[i + 1]![j]! >= common[i]![j + 1]!)) {
+      lines.push({ kind: 'removed', text: oldLines[i]! });
+      i++;
+    } else {
+      lines.push({ kind: 'added', text: newLines[j]! });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Renders a diff with "+"/"-" prefixes, keeping `context` unchanged lines
+ * around each change and eliding the rest.
+ */
+export function formatDiff(lines: DiffLine[], context: number = 3): string {
+  const changed = lines.map((line, index) => (line.kind === 'same' ? -1 : index)).filter((index) => index >= 0);
+  const visible = new Set<number>();
+  for (const index of changed) {
+    for (let offset = -context; offset <= context; offset++) {
+      visible.add(index + offset);
+    }
+  }
+
+  const output: string[] = [];
+  let elided = false;
+  lines.forEach((line, index) => {
+    if (!visible.has(index)) {
+      if (!elided) {
+        output.push('  ...');
+        elided = true;
+      }
+      return;
+    }
+    elided = false;
+    const prefix = line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  ';
+    output.push(`${prefix}${line.text}`);
+  });
+
+  return output.join('\n');
+}
+
+export function hasChanges(lines: DiffLine[]): boolean {
+  return lines.some((line) => line.kind !== 'same');
+}
@@ -0,0 +1,212 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export const APP_CONFIG_DIR_NAME = 'workout-google-sheets';
+export const LEGACY_TOKEN_PATH = 'token.json';
+export const TOKEN_PASSPHRASE_ENV = 'WORKOUT_TOKEN_PASSPHRASE';
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+
+export type TokenEncryption =
+  | { kind: 'passphrase'; passphrase: string }
+  | { kind: 'keyfile'; keyFilePath: string };
+
+interface EncryptedToken {
+  encrypted: true;
+  version: 1;
+  kdf: 'scrypt' | 'keyfile';
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Per-user configuration directory: $XDG_CONFIG_HOME or ~/.config on Linux,
+ * ~/Library/Application Support on macOS and %APPDATA% on Windows.
+ */
+export function getUserConfigDir(): string {
+  const home = os.homedir();
+  let baseDir: string;
+
+  if (process.platform === 'win32') {
+    baseDir = process.env.APPDATA || path.join(home, 'AppData', 'Roaming');
+  } else if (process.platform === 'darwin') {
+    baseDir = path.join(home, 'Library', 'Application Support');
+  } else {
+    baseDir = process.env.XDG_CONFIG_HOME || path.join(home, '.config');
+  }
+
+  return path.join(baseDir, APP_CONFIG_DIR_NAME);
+}
+
+export function getDefaultTokenPath(): string {
+  return path.join(getUserConfigDir(), 'token.json');
+}
+
+/**
+ * Reads and writes the OAuth token file, optionally encrypted with AES-256-GCM
+ * using a key derived from a passphrase or read from a keyfile.
+ */
+export class TokenStore {
+  readonly filePath: string;
+  private encryption?: TokenEncryption;
+
+  constructor(filePath: string = getDefaultTokenPath(), encryption?: TokenEncryption) {
+    this.filePath = filePath;
+    this.encryption = encryption;
+  }
+
+  async exists(): Promise<boolean> {
+    await this.migrateLegacyToken();
+    return await this.fileExists();
+  }
+
+  private async fileExists(): Promise<boolean> {
+    try {
+      await fs.access(this.filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async isStoredEncrypted(): Promise<boolean> {
+    try {
+      const content = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return content?.encrypted === true;
+    } catch {
+      return false;
+    }
+  }
+
+  async load(): Promise<any> {
+    await this.migrateLegacyToken();
+
+    const content = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    if (content?.encrypted !== true) {
+      return content;
+    }
+
+    if (!this.encryption) {
+      throw new Error(`${this.filePath} is encrypted. Set ${TOKEN_PASSPHRASE_ENV} or google.tokenKeyFile to decrypt it`);
+    }
+    return JSON.parse(await this.decrypt(content as EncryptedToken));
+  }
+
+  async save(token: any): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const json = JSON.stringify(token);
+    const content = this.encryption ? JSON.stringify(await this.encrypt(json)) : json;
+    await fs.writeFile(this.filePath, content, { encoding: 'utf8', mode: 0o600 });
+  }
+
+  async delete(): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath);
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return false;
+      }
+      throw new Error(`Error deleting token ${this.filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Moves a token.json left in the working directory by older versions into
+   * this store, so existing logins keep working.
+   */
+  private async migrateLegacyToken(): Promise<void> {
+    if (path.resolve(this.filePath) === path.resolve(LEGACY_TOKEN_PATH) || await this.fileExists()) {
+      return;
+    }
+
+    let legacyContent: string;
+    try {
+      legacyContent = await fs.readFile(LEGACY_TOKEN_PATH, 'utf8');
+    } catch {
+      return;
+    }
+
+    await this.save(JSON.parse(legacyContent));
+    await fs.unlink(LEGACY_TOKEN_PATH);
+    console.log(`Moved ${LEGACY_TOKEN_PATH} to ${this.filePath}`);
+  }
+
+  private async encrypt(plaintext: string): Promise<EncryptedToken> {
+    const salt = this.encryption?.kind === 'passphrase' ? randomBytes(16) : undefined;
+    const key = await this.getKey(salt);
+    const iv = randomBytes(12);
+
+    const cipher = createCipheriv(CIPHER, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+      encrypted: true,
+      version: 1,
+      kdf: salt ? 'scrypt' : 'keyfile',
+      salt: salt?.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  private async decrypt(envelope: EncryptedToken): Promise<string> {
+    const expectedKdf = this.encryption?.kind === 'passphrase' ? 'scrypt' : 'keyfile';
+    if (envelope.kdf !== expectedKdf) {
+      throw new Error(`${this.filePath} was encrypted with a ${envelope.kdf === 'scrypt' ? 'passphrase' : 'keyfile'}, but a ${this.encryption?.kind} was configured`);
+    }
+
+    const key = await this.getKey(envelope.salt ? Buffer.from(envelope.salt, 'base64') : undefined);
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+    try {
+      return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error(`Could not decrypt ${this.filePath}: wrong passphrase or keyfile`);
+    }
+  }
+
+  private async getKey(salt?: Buffer): Promise<Buffer> {
+    if (!this.encryption) {
+      throw new Error('Token encryption is not configured');
+    }
+
+    if (this.encryption.kind === 'passphrase') {
+      return scryptSync(this.encryption.passphrase, salt!, KEY_LENGTH);
+    }
+
+    return await readOrCreateKeyFile(this.encryption.keyFilePath);
+  }
+}
+
+/**
+ * Reads a base64 key from `keyFilePath`, generating one on first use. Keep the
+ * keyfile outside the repository; anyone holding it can decrypt the token.
+ */
+async function readOrCreateKeyFile(keyFilePath: string): Promise<Buffer> {
+  try {
+    const key = Buffer.from((await fs.readFile(keyFilePath, 'utf8')).trim(), 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`${keyFilePath} must contain a base64-encoded ${KEY_LENGTH}-byte key`);
+    }
+    return key;
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const key = randomBytes(KEY_LENGTH);
+  await fs.mkdir(path.dirname(keyFilePath), { recursive: true });
+  await fs.writeFile(keyFilePath, `${key.toString('base64')}\n`, { encoding: 'utf8', mode: 0o600 });
+  console.log(`Generated token keyfile at ${keyFilePath}`);
+  return key;
+}
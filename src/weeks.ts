@@ -0,0 +1,133 @@
+import { Command } from 'commander';
+import { WorkoutHistory, type HistoryEntry } from './history-store';
+import { loadConfig, type Config } from './config';
+import { ProgramCalendar } from './program-calendar';
+import { formatDate, nextWeekday, parseDateArgument } from './dates';
+import { UsageError, addGlobalOptions, printResult, runProgram, type GlobalOptions } from './cli';
+
+export interface WeekStatus {
+  // Unset for break weeks
+  weekNumber?: number;
+  // First day of the week (YYYY-MM-DD), when the program start date is set
+  startDate?: string;
+  status: 'published' | 'missing' | 'break';
+  deload: boolean;
+  breakLabel?: string;
+  pageTitle?: string;
+  notionPageId?: string;
+  publishedAt?: string;
+  // More than one means the week was published twice
+  pageCount: number;
+}
+
+/**
+ * Lists program weeks up to `until` with the pages published for each. Without
+ * a program start date the weeks run from 1 to the highest of the counter and
+ * the published week numbers.
+ */
+export async function listWeeks(config: Config, until: Date): Promise<WeekStatus[]> {
+  const history = new WorkoutHistory(config.history?.path);
+  const entries = await history.list({ kind: 'week' });
+
+  // Newest first, so the first entry per week is the latest page
+  const published = new Map<number, HistoryEntry[]>();
+  for (const entry of entries) {
+    if (entry.weekNumber !== undefined) {
+      published.set(entry.weekNumber, [...(published.get(entry.weekNumber) ?? []), entry]);
+    }
+  }
+
+  const toStatus = (weekNumber: number, deload: boolean, startDate?: Date): WeekStatus => {
+    const pages = published.get(weekNumber) ?? [];
+    const latest = pages[0];
+    return {
+      weekNumber,
+      startDate: startDate ? formatDate(startDate, 'YYYY-MM-DD') : undefined,
+      status: latest ? 'published' : 'missing',
+      deload,
+      pageTitle: latest?.pageTitle,
+      notionPageId: latest?.notionPageId,
+      publishedAt: latest?.createdAt,
+      pageCount: pages.length,
+    };
+  };
+
+  const weeks: WeekStatus[] = [];
+  const calendar = ProgramCalendar.fromConfig(config.program);
+
+  if (calendar) {
+    for (const week of calendar.weeksUntil(until)) {
+      if (week.weekNumber === undefined) {
+        weeks.push({ startDate: formatDate(week.startDate, 'YYYY-MM-DD'), status: 'break', deload: false, breakLabel: week.breakLabel, pageCount: 0 });
+      } else {
+        weeks.push(toStatus(week.weekNumber, week.deload, week.startDate));
+      }
+    }
+  } else {
+    const lastWeek = Math.max(config.data?.currentWeekNumber ?? 0, ...published.keys());
+    for (let weekNumber = 1; weekNumber <= lastWeek; weekNumber++) {
+      weeks.push(toStatus(weekNumber, false));
+    }
+  }
+
+  // Weeks published ahead of the calendar with --week
+  const listed = new Set(weeks.map((week) => week.weekNumber));
+  const extra = [...published.keys()].filter((weekNumber) => !listed.has(weekNumber)).sort((a, b) => a - b);
+  for (const weekNumber of extra) {
+    weeks.push(toStatus(weekNumber, calendar?.isDeload(weekNumber) ?? false, calendar?.startOf(weekNumber)));
+  }
+
+  return weeks;
+}
+
+function formatWeekLine(week: WeekStatus): string {
+  const flags = [
+    week.deload ? 'deload' : '',
+    week.pageCount > 1 ? `${week.pageCount} pages` : '',
+  ].filter(Boolean).join(', ');
+
+  return [
+    (week.weekNumber !== undefined ? `W${week.weekNumber}` : '-').padEnd(4),
+    (week.startDate ?? '').padEnd(10),
+    week.status.padEnd(9),
+    week.status === 'break' ? week.breakLabel : week.pageTitle,
+    flags ? `(${flags})` : '',
+  ].filter(Boolean).join('  ').trimEnd();
+}
+
+export function weeksCommand(name: string = 'weeks'): Command {
+  const command = new Command(name);
+
+  command
+    .description('List program weeks and which have been published')
+    .option('--until <date>', 'Last week to list (defaults to the week starting next Monday)')
+    .action(async (options, actionCommand: Command) => {
+      const config = await loadConfig({ profile: actionCommand.optsWithGlobals<GlobalOptions>().profile });
+
+      let until = nextWeekday(new Date(), 1);
+      if (options.until) {
+        try {
+          until = parseDateArgument(options.until);
+        } catch (error) {
+          throw new UsageError((error as Error).message);
+        }
+      }
+
+      const weeks = await listWeeks(config, until);
+
+      printResult(actionCommand, weeks, () => {
+        if (weeks.length === 0) {
+          console.log('No weeks yet. Set "program.startDate" in config.json or publish a week with create-week');
+          return;
+        }
+
+        weeks.forEach((week) => console.log(formatWeekLine(week)));
+      });
+    });
+
+  return command;
+}
+
+if (import.meta.main) {
+  runProgram(addGlobalOptions(weeksCommand()));
+}
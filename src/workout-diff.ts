@@ -0,0 +1,158 @@
+import type { WorkoutSectionData, WorkoutSession } from './notion';
+import { ProgressAnalyzer } from './analytics';
+
+export type WorkoutChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ExerciseChange {
+  kind: WorkoutChangeKind;
+  // Unset when added
+  before?: string;
+  // Unset when removed
+  after?: string;
+}
+
+export interface SectionDiff {
+  kind: WorkoutChangeKind;
+  // Lettered label (A1, B, ...), the upper/lower header, or "General"
+  section: string;
+  changes: ExerciseChange[];
+}
+
+export interface SessionDiff {
+  kind: WorkoutChangeKind;
+  sessionNumber: number;
+  sections: SectionDiff[];
+}
+
+interface SessionLine {
+  key: string;
+  text: string;
+}
+
+const GENERAL_SECTION = 'General';
+// Key of a lettered section's own line, e.g. "A1. Squats 3x5"
+const HEADER_KEY = '#header';
+
+/**
+ * Compares two parses of the same sessions. Sessions are matched by number,
+ * lettered sections by label, and lines within a section by exercise name, so
+ * changing the sets, reps or load of an exercise reads as one change rather
+ * than a removal and an addition.
+ */
+export function diffSessions(before: WorkoutSession[], after: WorkoutSession[]): SessionDiff[] {
+  const sessionNumbers = Array.from(new Set([...after, ...before].map((session) => session.sessionNumber)))
+    .sort((a, b) => a - b);
+  const diffs: SessionDiff[] = [];
+
+  for (const sessionNumber of sessionNumbers) {
+    const oldSession = before.find((session) => session.sessionNumber === sessionNumber);
+    const newSession = after.find((session) => session.sessionNumber === sessionNumber);
+    const oldSections = oldSession ? groupLines(oldSession) : new Map<string, SessionLine[]>();
+    const newSections = newSession ? groupLines(newSession) : new Map<string, SessionLine[]>();
+
+    const sections: SectionDiff[] = [];
+    for (const section of new Set([...newSections.keys(), ...oldSections.keys()])) {
+      const oldLines = oldSections.get(section);
+      const newLines = newSections.get(section);
+      const changes = diffSectionLines(oldLines ?? [], newLines ?? []);
+      if (changes.length > 0) {
+        sections.push({ kind: !oldLines ? 'added' : !newLines ? 'removed' : 'changed', section, changes });
+      }
+    }
+
+    if (sections.length > 0) {
+      diffs.push({ kind: !oldSession ? 'added' : !newSession ? 'removed' : 'changed', sessionNumber, sections });
+    }
+  }
+
+  return diffs;
+}
+
+export function formatSessionDiffs(diffs: SessionDiff[]): string {
+  if (diffs.length === 0) {
+    return 'No changes';
+  }
+
+  const lines: string[] = [];
+  for (const session of diffs) {
+    lines.push(`Session ${session.sessionNumber}${session.kind === 'changed' ? '' : ` (${session.kind})`}`);
+    for (const section of session.sections) {
+      lines.push(`  ${section.section}${section.kind === 'changed' ? '' : ` (${section.kind})`}`);
+      for (const change of section.changes) {
+        if (change.kind === 'added') {
+          lines.push(`    + ${change.after}`);
+        } else if (change.kind === 'removed') {
+          lines.push(`    - ${change.before}`);
+        } else {
+          lines.push(`    ~ ${change.before} → ${change.after}`);
+        }
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function countExerciseChanges(diffs: SessionDiff[]): number {
+  return diffs.reduce((total, session) =>
+    total + session.sections.reduce((sum, section) => sum + section.changes.length, 0), 0);
+}
+
+// Each session's lines by section, in page order
+function groupLines(session: WorkoutSession): Map<string, SessionLine[]> {
+  const sections = new Map<string, SessionLine[]>();
+  const add = (section: string, line: SessionLine) => {
+    sections.set(section, [...(sections.get(section) ?? []), line]);
+  };
+
+  for (const section of session.sections) {
+    const sectionName = getSectionName(section);
+    if (section.type === 'section' && section.header) {
+      add(sectionName, { key: HEADER_KEY, text: section.header.trim() });
+    }
+    for (const item of section.items) {
+      const text = item.raw.trim();
+      if (text) {
+        const exercise = item.exercise?.name ? ProgressAnalyzer.normalizeExerciseName(item.exercise.name) : '';
+        add(sectionName, { key: exercise || text.toLowerCase(), text });
+      }
+    }
+  }
+
+  return sections;
+}
+
+function getSectionName(section: WorkoutSectionData): string {
+  if (section.type === 'section' && section.groupLabel) {
+    return `${section.groupLabel}${section.groupOrder ?? ''}`;
+  }
+  if (section.type === 'upper_lower' && section.header) {
+    return section.header.replace(/:\s*$/, '').trim();
+  }
+  return GENERAL_SECTION;
+}
+
+/**
+ * Lines paired by key, repeated keys in order. Changed and added lines follow
+ * the new order; removed lines come last.
+ */
+function diffSectionLines(before: SessionLine[], after: SessionLine[]): ExerciseChange[] {
+  const unmatched = [...before];
+  const changes: ExerciseChange[] = [];
+
+  for (const line of after) {
+    const index = unmatched.findIndex((candidate) => candidate.key === line.key);
+    if (index === -1) {
+      changes.push({ kind: 'added', after: line.text });
+      continue;
+    }
+
+    const [previous] = unmatched.splice(index, 1);
+    if (previous!.text !== line.text) {
+      changes.push({ kind: 'changed', before: previous!.text, after: line.text });
+    }
+  }
+
+  changes.push(...unmatched.map((line): ExerciseChange => ({ kind: 'removed', before: line.text })));
+  return changes;
+}
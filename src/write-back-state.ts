@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+
+export const WRITE_BACK_STATE_FILE_PATH = 'write-back-state.json';
+
+export interface WrittenEntry {
+  spreadsheetId: string;
+  // Qualified A1 reference of the note or Notes cell
+  location: string;
+  // Date of the entry's "--- YYYY-MM-DD ---" separator
+  date: string;
+  // Entry text as last written, to tell whether anyone has edited it since
+  text: string;
+  writtenAt: string;
+}
+
+export type NewWrittenEntry = Omit<WrittenEntry, 'writtenAt'>;
+
+/**
+ * Local record of the dated entries write-back last wrote to each cell.
+ */
+export class WriteBackState {
+  private filePath: string;
+
+  constructor(filePath: string = WRITE_BACK_STATE_FILE_PATH) {
+    this.filePath = filePath;
+  }
+
+  async get(spreadsheetId: string, location: string, date: string): Promise<WrittenEntry | null> {
+    const entries = await this.readAll();
+    return entries.find((entry) => isSameEntry(entry, { spreadsheetId, location, date })) ?? null;
+  }
+
+  async save(entry: NewWrittenEntry): Promise<WrittenEntry> {
+    const entries = await this.readAll();
+    const stored: WrittenEntry = { ...entry, writtenAt: new Date().toISOString() };
+    const index = entries.findIndex((existing) => isSameEntry(existing, entry));
+
+    if (index === -1) {
+      entries.push(stored);
+    } else {
+      entries[index] = stored;
+    }
+
+    await fs.writeFile(this.filePath, `${JSON.stringify(entries, null, 2)}\n`, 'utf8');
+    return stored;
+  }
+
+  private async readAll(): Promise<WrittenEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Error reading write-back state from ${this.filePath}: ${error}`);
+    }
+
+    try {
+      return JSON.parse(content) as WrittenEntry[];
+    } catch (error) {
+      throw new Error(`Invalid write-back state in ${this.filePath}: ${error}`);
+    }
+  }
+}
+
+function isSameEntry(a: Omit<NewWrittenEntry, 'text'>, b: Omit<NewWrittenEntry, 'text'>): boolean {
+  return a.spreadsheetId === b.spreadsheetId && a.location === b.location && a.date === b.date;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { appendDatedEntry } from './write-back';
+
+const DATE = new Date(2025, 2, 3);
+const OLDER = '--- 2025-02-24 ---\nFelt strong';
+
+describe('appendDatedEntry', () => {
+  test('adds an entry under a dated separator', () => {
+    expect(appendDatedEntry('', 'Squats felt heavy', DATE)).toBe('--- 2025-03-03 ---\nSquats felt heavy');
+    expect(appendDatedEntry(OLDER, 'Squats felt heavy', DATE))
+      .toBe(`${OLDER}\n\n--- 2025-03-03 ---\nSquats felt heavy`);
+  });
+
+  test('replaces the entry while it reads as last written', () => {
+    const existing = `${OLDER}\n\n--- 2025-03-03 ---\nSquats felt heavy`;
+    expect(appendDatedEntry(existing, 'Squats felt light', DATE, 'Squats felt heavy'))
+      .toBe(`${OLDER}\n\n--- 2025-03-03 ---\nSquats felt light`);
+  });
+
+  test('leaves an unchanged entry alone', () => {
+    const existing = `${OLDER}\n\n--- 2025-03-03 ---\nSquats felt heavy`;
+    expect(appendDatedEntry(existing, 'Squats felt heavy', DATE)).toBe(existing);
+  });
+
+  test('keeps a coach reply on a re-run with the same notes', () => {
+    const existing = '--- 2025-03-03 ---\nSquats felt heavy\nCoach: drop to 215 next week';
+    expect(appendDatedEntry(existing, 'Squats felt heavy', DATE, 'Squats felt heavy')).toBe(existing);
+  });
+
+  test('keeps a coach reply and adds changed notes as a new entry', () => {
+    const existing = '--- 2025-03-03 ---\nSquats felt heavy\nCoach: drop to 215 next week';
+    const after = appendDatedEntry(existing, 'Squats felt heavy, knee ok', DATE, 'Squats felt heavy');
+
+    expect(after).toBe(`${existing}\n\n--- 2025-03-03 ---\nSquats felt heavy, knee ok`);
+    // The next re-run replaces only the new entry
+    expect(appendDatedEntry(after, 'Knee ok', DATE, 'Squats felt heavy, knee ok'))
+      .toBe(`${existing}\n\n--- 2025-03-03 ---\nKnee ok`);
+  });
+
+  test('never replaces an entry it has no record of writing', () => {
+    const existing = '--- 2025-03-03 ---\nWritten by hand';
+    expect(appendDatedEntry(existing, 'Squats felt heavy', DATE))
+      .toBe(`${existing}\n\n--- 2025-03-03 ---\nSquats felt heavy`);
+  });
+});
@@ -0,0 +1,366 @@
+import { GoogleSheetsClient, qualifyRange, toA1Cell } from './sheets';
+import { UsageError } from './cli';
+import { formatDate } from './dates';
+import { formatNoteSections, type NoteSection, type NoteSectionRule } from './note-sections';
+import { diffLines, formatDiff, hasChanges } from './text-diff';
+import { WriteBackState } from './write-back-state';
+
+export const WRITE_BACK_TARGETS = ['note', 'append-note', 'column', 'comment', 'log-row'] as const;
+
+export type WriteBackTarget = typeof WRITE_BACK_TARGETS[number];
+
+export const NOTES_LOG_HEADER = ['Date', 'Page', 'Session Cell', 'Section', 'Notes'];
+
+export interface WriteBackConfig {
+  // Where post-workout writes the notes (default ["append-note"])
+  targets?: WriteBackTarget[];
+  // Columns right of the session cell for the "column" target (default 1)
+  notesColumnOffset?: number;
+  // Tab receiving one row per note section for the "log-row" target (default "Notes")
+  notesTab?: string;
+  // Sections to split the notes into; by default each heading on the page
+  sections?: NoteSectionRule[];
+  // Dated entries as last written (default write-back-state.json)
+  statePath?: string;
+}
+
+export interface WriteBackContext {
+  spreadsheetId: string;
+  // Session cell, as given or located
+  cell: string;
+  tab?: string;
+  // Session date, which dates appended entries
+  date: Date;
+  pageTitle: string;
+}
+
+export interface WriteBackChange {
+  target: WriteBackTarget;
+  // Qualified A1 reference written to; for a new log row, the tab
+  location: string;
+  before: string;
+  after: string;
+  // Values of the "log-row" target
+  row?: string[];
+  // Log row being rewritten (1-based), when the session already has one
+  rowNumber?: number;
+  // Dated entry of the "append-note" and "column" targets, recorded once written
+  entry?: string;
+}
+
+const DEFAULT_NOTES_TAB = 'Notes';
+const ENTRY_SEPARATOR_PATTERN = /^--- (\d{4}-\d{2}-\d{2}) ---$/;
+
+export function parseWriteBackTargets(value: string | string[] = ['append-note']): WriteBackTarget[] {
+  const names = (Array.isArray(value) ? value : value.split(','))
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.length === 0) {
+    throw new UsageError('At least one write-back target is required');
+  }
+
+  for (const name of names) {
+    if (!WRITE_BACK_TARGETS.includes(name as WriteBackTarget)) {
+      throw new UsageError(`Unknown target "${name}". Expected one of: ${WRITE_BACK_TARGETS.join(', ')}`);
+    }
+  }
+
+  return Array.from(new Set(names)) as WriteBackTarget[];
+}
+
+/**
+ * Adds `entry` under a "--- YYYY-MM-DD ---" separator at the end of `existing`.
+ * The latest entry for the same date is replaced only while it still reads
+ * `previous`, the text last written there, so re-running for a session never
+ * stacks copies. Once someone has edited it, such as a coach replying below,
+ * it is kept and a new entry added after everything else, unless the notes
+ * have not changed since `previous`.
+ */
+export function appendDatedEntry(existing: string, entry: string, date: Date, previous?: string): string {
+  const separator = `--- ${formatDate(date, 'YYYY-MM-DD')} ---`;
+  const lines = existing ? existing.split('\n') : [];
+  const start = lines.findLastIndex((line) => line.trim() === separator);
+  const head = existing.trimEnd();
+  const appended = head ? `${head}\n\n${separator}\n${entry}` : `${separator}\n${entry}`;
+
+  if (start === -1) {
+    return appended;
+  }
+
+  const next = lines.findIndex((line, index) => index > start && ENTRY_SEPARATOR_PATTERN.test(line.trim()));
+  const written = lines.slice(start + 1, next === -1 ? undefined : next).join('\n').trim();
+  if (written === entry.trim() || (previous !== undefined && previous.trim() === entry.trim())) {
+    return existing;
+  }
+  if (previous === undefined || written !== previous.trim()) {
+    return appended;
+  }
+
+  const before = lines.slice(0, start).join('\n').trimEnd();
+  const after = next === -1 ? '' : lines.slice(next).join('\n');
+  return [before, `${separator}\n${entry}`, after].filter(Boolean).join('\n\n');
+}
+
+/**
+ * The change as a diff under its target and location, for previews.
+ */
+export function formatWriteBackChange(change: WriteBackChange): string {
+  const diff = diffLines(change.before, change.after);
+  return hasChanges(diff)
+    ? `${change.target} ${change.location}:\n${formatDiff(diff)}`
+    : `${change.target} ${change.location}: unchanged`;
+}
+
+/**
+ * Sheets client with the calls post-workout needs to write notes back: cell
+ * notes and values, Drive comments and rows of the notes tab.
+ */
+export class NotesSheetsClient extends GoogleSheetsClient {
+  async getCellNote(spreadsheetId: string, cellReference: string, tab?: string): Promise<string> {
+    try {
+      const { a1 } = await this.resolveRange(spreadsheetId, cellReference, tab);
+      const response = await this.sheets.spreadsheets.get({
+        spreadsheetId,
+        ranges: [a1],
+        fields: 'sheets.data.rowData.values.note',
+      });
+      return response.data.sheets?.[0]?.data?.[0]?.rowData?.[0]?.values?.[0]?.note ?? '';
+    } catch (error) {
+      throw new Error(`Error reading the note of cell ${cellReference}: ${error}`);
+    }
+  }
+
+  async setCellNote(spreadsheetId: string, cellReference: string, note: string, tab?: string): Promise<void> {
+    try {
+      const { gridRange } = await this.resolveRange(spreadsheetId, cellReference, tab);
+
+      await this.sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        resource: {
+          requests: [
+            {
+              updateCells: {
+                rows: [{ values: [{ note }] }],
+                fields: 'note',
+                range: {
+                  ...gridRange,
+                  endRowIndex: gridRange.startRowIndex + 1,
+                  endColumnIndex: gridRange.startColumnIndex + 1,
+                },
+              },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      throw new Error(`Error writing the note of cell ${cellReference}: ${error}`);
+    }
+  }
+
+  async setCellValues(spreadsheetId: string, range: string, values: string[][]): Promise<void> {
+    try {
+      await this.sheets.spreadsheets.values.update({
+        spreadsheetId,
+        range,
+        // RAW so notes starting with "=" or "+" are not read as formulas
+        valueInputOption: 'RAW',
+        resource: { values },
+      });
+    } catch (error) {
+      throw new Error(`Error writing ${range}: ${error}`);
+    }
+  }
+
+  async listComments(spreadsheetId: string): Promise<string[]> {
+    try {
+      const comments: string[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.drive.comments.list({
+          fileId: spreadsheetId,
+          fields: 'nextPageToken,comments(content,deleted)',
+          pageSize: 100,
+          pageToken,
+        });
+        for (const comment of response.data.comments || []) {
+          if (!comment.deleted) {
+            comments.push(comment.content ?? '');
+          }
+        }
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return comments;
+    } catch (error) {
+      throw new Error(`Error listing comments: ${error}`);
+    }
+  }
+
+  /**
+   * Starts a comment thread on the spreadsheet. The Drive API cannot anchor a
+   * comment to a cell, so the cell is quoted instead.
+   */
+  async addComment(spreadsheetId: string, content: string, quotedCell: string): Promise<void> {
+    try {
+      await this.drive.comments.create({
+        fileId: spreadsheetId,
+        fields: 'id',
+        requestBody: {
+          content,
+          quotedFileContent: { mimeType: 'text/plain', value: quotedCell },
+        },
+      });
+    } catch (error) {
+      throw new Error(`Error commenting on ${quotedCell}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Works out what each write-back target would change, so the diff can be shown
+ * before anything is written, and then writes it.
+ */
+export class NotesWriter {
+  private client: NotesSheetsClient;
+  private context: WriteBackContext;
+  private config: WriteBackConfig;
+  private state: WriteBackState;
+
+  constructor(client: NotesSheetsClient, context: WriteBackContext, config: WriteBackConfig = {}) {
+    this.client = client;
+    this.context = context;
+    this.config = config;
+    this.state = new WriteBackState(config.statePath);
+  }
+
+  async plan(targets: WriteBackTarget[], sections: NoteSection[]): Promise<WriteBackChange[]> {
+    const content = formatNoteSections(sections);
+    const { spreadsheetId, cell, tab, date } = this.context;
+    const changes: WriteBackChange[] = [];
+
+    for (const target of targets) {
+      switch (target) {
+        case 'note':
+        case 'append-note': {
+          const { a1 } = await this.client.resolveRange(spreadsheetId, cell, tab);
+          const before = await this.client.getCellNote(spreadsheetId, a1);
+          if (target === 'note') {
+            changes.push({ target, location: a1, before, after: content });
+          } else {
+            changes.push(await this.planDatedEntry(target, a1, before, content));
+          }
+          break;
+        }
+
+        case 'column': {
+          const location = await this.getNotesCell();
+          const [[before = ''] = []] = await this.client.getCellRange(spreadsheetId, location);
+          changes.push(await this.planDatedEntry(target, location, before, content));
+          break;
+        }
+
+        case 'comment': {
+          const { a1 } = await this.client.resolveRange(spreadsheetId, cell, tab);
+          const after = `${a1} (${formatDate(date, 'YYYY-MM-DD')})\n${content}`;
+          const existing = await this.client.listComments(spreadsheetId);
+          changes.push({ target, location: a1, before: existing.includes(after) ? after : '', after });
+          break;
+        }
+
+        case 'log-row':
+          changes.push(...await this.planLogRows(sections));
+          break;
+      }
+    }
+
+    return changes;
+  }
+
+  async apply(change: WriteBackChange): Promise<void> {
+    const { spreadsheetId } = this.context;
+
+    switch (change.target) {
+      case 'note':
+      case 'append-note':
+        await this.client.setCellNote(spreadsheetId, change.location, change.after);
+        break;
+
+      case 'column':
+        await this.client.setCellValues(spreadsheetId, change.location, [[change.after]]);
+        break;
+
+      case 'comment':
+        await this.client.addComment(spreadsheetId, change.after, change.location);
+        break;
+
+      case 'log-row':
+        if (change.rowNumber) {
+          await this.client.setCellValues(spreadsheetId, qualifyRange(`A${change.rowNumber}`, change.location), [change.row!]);
+        } else {
+          await this.client.ensureSheetTab(spreadsheetId, change.location, NOTES_LOG_HEADER);
+          await this.client.appendRows(spreadsheetId, change.location, [change.row!]);
+        }
+        break;
+    }
+
+    if (change.entry !== undefined) {
+      await this.state.save({
+        spreadsheetId,
+        location: change.location,
+        date: formatDate(this.context.date, 'YYYY-MM-DD'),
+        text: change.entry,
+      });
+    }
+  }
+
+  private async planDatedEntry(target: WriteBackTarget, location: string, before: string, entry: string): Promise<WriteBackChange> {
+    const { spreadsheetId, date } = this.context;
+    const written = await this.state.get(spreadsheetId, location, formatDate(date, 'YYYY-MM-DD'));
+    const after = appendDatedEntry(before, entry, date, written?.text);
+    return { target, location, before, after, entry };
+  }
+
+  private async getNotesCell(): Promise<string> {
+    const { spreadsheetId, cell, tab } = this.context;
+    const { sheetTitle, gridRange } = await this.client.resolveRange(spreadsheetId, cell, tab);
+    const offset = this.config.notesColumnOffset ?? 1;
+    return qualifyRange(toA1Cell(gridRange.startRowIndex, gridRange.startColumnIndex + offset), sheetTitle);
+  }
+
+  /**
+   * One row per note section in the notes tab, matched on page title, session
+   * cell and section so a re-run rewrites the rows instead of adding more.
+   */
+  private async planLogRows(sections: NoteSection[]): Promise<WriteBackChange[]> {
+    const { spreadsheetId, cell, tab, date, pageTitle } = this.context;
+    const notesTab = this.config.notesTab ?? DEFAULT_NOTES_TAB;
+    const { a1 } = await this.client.resolveRange(spreadsheetId, cell, tab);
+
+    const tabs = await this.client.listTabs(spreadsheetId);
+    const existingRows = tabs.some((candidate) => candidate.title === notesTab)
+      ? await this.client.getCellRange(spreadsheetId, 'A:E', notesTab)
+      : [];
+
+    return sections.map((section) => {
+      const row = [formatDate(date, 'YYYY-MM-DD'), pageTitle, a1, section.name, section.content];
+      const index = existingRows.findIndex((existing) =>
+        existing[1] === row[1] && existing[2] === row[2] && existing[3] === row[3]
+      );
+
+      return {
+        target: 'log-row',
+        location: notesTab,
+        before: index === -1 ? '' : describeRow(existingRows[index]!),
+        after: describeRow(row),
+        row,
+        rowNumber: index === -1 ? undefined : index + 1,
+      };
+    });
+  }
+}
+
+// One "Header: value" line per column, for the diff preview
+function describeRow(row: string[]): string {
+  return NOTES_LOG_HEADER.map((header, index) => `${header}: ${(row[index] ?? '').replace(/\n/g, ' / ')}`).join('\n');
+}